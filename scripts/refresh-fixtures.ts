@@ -0,0 +1,63 @@
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { feedUrl } from "../src/feed.js";
+import { fetchHtml } from "../src/fetcher.js";
+import { listingPageUrl, parseListings } from "../src/scraper.js";
+import { getSource } from "../src/sources.js";
+import { FIXTURE_SOURCES } from "../test/helpers.js";
+
+// ─── Fixture refresh ─────────────────────────────────────────────────────────
+// Saves the live pages each fixture source's scrapers read — the first one or
+// two listing pages, the newest post and the feed — into test/fixtures. Then
+// run `npm run test:update` and review the golden-file diff: changes there
+// are what a markup change did to the extracted posts.
+//
+//   npm run fixtures:refresh [-- source …]
+
+const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), "..", "test", "fixtures");
+
+async function refresh(sourceId: string): Promise<void> {
+  const source = getSource(sourceId);
+  const dir = join(FIXTURES_DIR, sourceId);
+  mkdirSync(dir, { recursive: true });
+  const fetchedAt = new Date();
+
+  const pages = source.archive.paginated ? [1, 2] : [1];
+  let newest: string | undefined;
+  for (const page of pages) {
+    const html = await fetchHtml(listingPageUrl(source, page));
+    writeFileSync(join(dir, `listing-${page}.html`), html);
+    if (page === 1) newest = parseListings(source, html, fetchedAt)[0]?.url;
+  }
+  if (!newest) throw new Error(`No posts found on ${listingPageUrl(source, 1)}`);
+
+  writeFileSync(join(dir, "post.html"), await fetchHtml(newest));
+
+  const feed = feedUrl(source);
+  if (feed) writeFileSync(join(dir, "feed.xml"), await fetchHtml(feed));
+  else rmSync(join(dir, "feed.xml"), { force: true });
+
+  writeFileSync(
+    join(dir, "fixture.json"),
+    JSON.stringify(
+      { fetched_at: fetchedAt.toISOString(), post_slug: newest.split("/p/")[1] },
+      null,
+      2
+    ) + "\n"
+  );
+  console.log(`${sourceId}: saved ${pages.length} listing page(s), ${newest}${feed ? ", feed" : ""}`);
+}
+
+async function main() {
+  const requested = process.argv.slice(2);
+  for (const sourceId of requested.length > 0 ? requested : FIXTURE_SOURCES) {
+    await refresh(sourceId);
+  }
+  console.log("Now run `npm run test:update` and review the changes under test/golden.");
+}
+
+main().catch((error) => {
+  console.error("Fixture refresh failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,514 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { readFileSync } from "fs";
+import type { Request, RequestHandler, Response } from "express";
+import { z } from "zod";
+import { log } from "./logger.js";
+
+// ─── HTTP access control ─────────────────────────────────────────────────────
+// Guards /mcp in HTTP mode. Clients authenticate with an API key
+// (`Authorization: Bearer <key>` or `X-API-Key: <key>`) or, when an OAuth
+// authorization server is configured, with an OAuth access token validated by
+// token introspection (RFC 7662). Each principal — a named key or an OAuth
+// subject — has its own per-minute rate limit and daily quota, counted in
+// memory. A client IP that keeps presenting bad credentials has further bad
+// credentials refused, without introspection, for the rest of the minute;
+// valid ones still get through. Rejections are JSON-RPC error responses.
+//
+// Behind a reverse proxy (Render, a load balancer) set MCP_TRUST_PROXY, or
+// every client shares the proxy's address for that count.
+//
+//   MCP_API_KEYS                 comma-separated keys, each `key` or `name:key`
+//   MCP_API_KEYS_FILE            JSON file: { "keys": [{ "name", "key", "rate_per_minute", "daily_quota" }] }
+//   MCP_RATE_LIMIT_PER_MINUTE    default requests per minute per principal (default 60)
+//   MCP_DAILY_QUOTA              default requests per UTC day per principal (default 2000, 0 = unlimited)
+//   MCP_ALLOWED_ORIGINS          comma-separated browser origins allowed by CORS (default *)
+//   MCP_TRUST_PROXY              Express "trust proxy" setting: hop count, true, or trusted addresses/subnets
+//   MCP_PUBLIC_URL               public base URL of this server (required with an issuer)
+//   MCP_OAUTH_ISSUER             authorization server advertised to OAuth clients
+//   MCP_OAUTH_INTROSPECTION_URL  endpoint used to validate OAuth access tokens (required with an issuer)
+//   MCP_OAUTH_CLIENT_ID          credentials for the introspection endpoint
+//   MCP_OAUTH_CLIENT_SECRET
+//
+// With no keys and no OAuth issuer configured, /mcp stays open (local use).
+
+const DEFAULT_RATE_PER_MINUTE = 60;
+const DEFAULT_DAILY_QUOTA = 2000;
+// Introspection results are reused for at most this long; rejections only
+// briefly, so a token that was just issued isn't refused for a whole minute
+const INTROSPECTION_TTL_MS = 60_000;
+const INTROSPECTION_NEGATIVE_TTL_MS = 5_000;
+const MAX_INTROSPECTION_ENTRIES = 10_000;
+// Failed authentications allowed per client IP per minute
+const MAX_AUTH_FAILURES_PER_MINUTE = 20;
+const MAX_TRACKED_CLIENTS = 10_000;
+
+// JSON-RPC server error codes used for rejected HTTP requests
+export const JSONRPC_UNAUTHORIZED = -32001;
+export const JSONRPC_FORBIDDEN = -32002;
+export const JSONRPC_RATE_LIMITED = -32003;
+export const JSONRPC_QUOTA_EXCEEDED = -32004;
+export const JSONRPC_AUTH_UNAVAILABLE = -32005;
+
+const keySchema = z.object({
+  name: z.string().min(1),
+  key: z.string().min(16, "API keys must be at least 16 characters"),
+  rate_per_minute: z.number().int().min(1).optional(),
+  daily_quota: z.number().int().min(0).optional(),
+});
+
+const keysFileSchema = z.object({
+  keys: z.array(keySchema),
+});
+
+type ApiKey = z.infer<typeof keySchema>;
+
+export interface Principal {
+  name: string;
+  ratePerMinute: number;
+  dailyQuota: number;
+}
+
+interface OAuthConfig {
+  issuer: string;
+  introspectionUrl: string;
+  // Tokens are checked against this resource's URL, never one taken from
+  // request headers
+  publicUrl: string;
+  clientId?: string;
+  clientSecret?: string;
+}
+
+export interface AuthConfig {
+  keys: ApiKey[];
+  oauth?: OAuthConfig;
+  allowedOrigins: string[] | "*";
+  trustProxy: number | boolean | string;
+  ratePerMinute: number;
+  dailyQuota: number;
+}
+
+function envInt(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+// Express accepts a hop count, a boolean, or a list of trusted addresses
+function trustProxy(value: string | undefined): number | boolean | string {
+  if (!value?.trim()) return false;
+  if (/^\d+$/.test(value.trim())) return Number(value);
+  if (value === "true" || value === "false") return value === "true";
+  return value;
+}
+
+function list(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function loadKeys(): ApiKey[] {
+  const keys: ApiKey[] = list(process.env.MCP_API_KEYS).map((entry, i) => {
+    const colon = entry.indexOf(":");
+    return colon > 0
+      ? { name: entry.slice(0, colon), key: entry.slice(colon + 1) }
+      : { name: `key-${i + 1}`, key: entry };
+  });
+
+  const path = process.env.MCP_API_KEYS_FILE;
+  if (path) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(path, "utf8"));
+    } catch (err) {
+      throw new Error(
+        `Could not read API keys file ${path}: ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+    const parsed = keysFileSchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid API keys file ${path}: ${parsed.error.issues
+          .map((i) => `${i.path.join(".")}: ${i.message}`)
+          .join("; ")}`
+      );
+    }
+    keys.push(...parsed.data.keys);
+  }
+
+  for (const key of keys) {
+    if (key.key.length < 16) {
+      throw new Error(`API key "${key.name}" is too short (minimum 16 characters)`);
+    }
+  }
+  return keys;
+}
+
+export function loadAuthConfig(): AuthConfig {
+  const origins = list(process.env.MCP_ALLOWED_ORIGINS);
+  const issuer = process.env.MCP_OAUTH_ISSUER;
+  const introspectionUrl = process.env.MCP_OAUTH_INTROSPECTION_URL;
+  const publicUrl = process.env.MCP_PUBLIC_URL?.replace(/\/+$/, "");
+  // Without an introspection endpoint no token could ever be accepted
+  if (issuer && !introspectionUrl) {
+    throw new Error("MCP_OAUTH_ISSUER is set but MCP_OAUTH_INTROSPECTION_URL is not");
+  }
+  if (issuer && !publicUrl) {
+    throw new Error("MCP_OAUTH_ISSUER is set but MCP_PUBLIC_URL is not");
+  }
+  return {
+    keys: loadKeys(),
+    oauth: issuer
+      ? {
+          issuer,
+          introspectionUrl: introspectionUrl!,
+          publicUrl: publicUrl!,
+          clientId: process.env.MCP_OAUTH_CLIENT_ID,
+          clientSecret: process.env.MCP_OAUTH_CLIENT_SECRET,
+        }
+      : undefined,
+    allowedOrigins: origins.length === 0 || origins.includes("*") ? "*" : origins,
+    trustProxy: trustProxy(process.env.MCP_TRUST_PROXY),
+    ratePerMinute: envInt("MCP_RATE_LIMIT_PER_MINUTE", DEFAULT_RATE_PER_MINUTE) || DEFAULT_RATE_PER_MINUTE,
+    dailyQuota: envInt("MCP_DAILY_QUOTA", DEFAULT_DAILY_QUOTA),
+  };
+}
+
+export function authEnabled(config: AuthConfig): boolean {
+  return config.keys.length > 0 || config.oauth !== undefined;
+}
+
+// ─── JSON-RPC errors ─────────────────────────────────────────────────────────
+
+export function sendJsonRpcError(
+  req: Request,
+  res: Response,
+  status: number,
+  code: number,
+  message: string
+): void {
+  // Batches and notifications have no single id to answer
+  const id =
+    req.body && !Array.isArray(req.body) && typeof req.body === "object"
+      ? (req.body.id ?? null)
+      : null;
+  res.status(status).json({ jsonrpc: "2.0", error: { code, message }, id });
+}
+
+// ─── CORS ────────────────────────────────────────────────────────────────────
+
+// Browser requests from origins outside the allowlist are refused outright;
+// requests without an Origin header (non-browser clients) are unaffected.
+export function corsMiddleware(config: AuthConfig): RequestHandler {
+  return (req, res, next) => {
+    const origin = req.headers.origin;
+    const allowed =
+      config.allowedOrigins === "*" || (origin !== undefined && config.allowedOrigins.includes(origin));
+
+    if (allowed) {
+      res.setHeader(
+        "Access-Control-Allow-Origin",
+        config.allowedOrigins === "*" ? "*" : origin!
+      );
+      if (config.allowedOrigins !== "*") res.setHeader("Vary", "Origin");
+      res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+      res.setHeader(
+        "Access-Control-Allow-Headers",
+        "Content-Type, mcp-session-id, mcp-protocol-version, Accept, Authorization, X-API-Key"
+      );
+      res.setHeader("Access-Control-Expose-Headers", "mcp-session-id, WWW-Authenticate, Retry-After");
+    } else if (origin !== undefined) {
+      sendJsonRpcError(req, res, 403, JSONRPC_FORBIDDEN, `Origin ${origin} is not allowed`);
+      return;
+    }
+    next();
+  };
+}
+
+// ─── Credentials ─────────────────────────────────────────────────────────────
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+// Compares against every key in constant time, so timing reveals nothing
+function matchApiKey(config: AuthConfig, presented: string): ApiKey | undefined {
+  const hash = digest(presented);
+  let match: ApiKey | undefined;
+  for (const key of config.keys) {
+    if (timingSafeEqual(hash, digest(key.key)) && !match) match = key;
+  }
+  return match;
+}
+
+function presentedToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (header?.toLowerCase().startsWith("bearer ")) return header.slice(7).trim();
+  const apiKey = req.headers["x-api-key"];
+  return typeof apiKey === "string" ? apiKey.trim() : undefined;
+}
+
+// Keyed by token hash; Map order is insertion order, so the first entry is
+// the oldest and is evicted when the cache is full
+const introspected = new Map<string, { principal?: Principal; expiresAt: number }>();
+
+function cacheIntrospection(key: string, principal: Principal | undefined, expiresAt: number): void {
+  introspected.delete(key);
+  if (introspected.size >= MAX_INTROSPECTION_ENTRIES) {
+    const now = Date.now();
+    for (const [k, entry] of introspected) {
+      if (entry.expiresAt <= now) introspected.delete(k);
+    }
+    if (introspected.size >= MAX_INTROSPECTION_ENTRIES) {
+      introspected.delete(introspected.keys().next().value!);
+    }
+  }
+  introspected.set(key, { principal, expiresAt });
+}
+
+function resourceUrl(oauth: OAuthConfig): string {
+  return `${oauth.publicUrl}/mcp`;
+}
+
+// With `cachedOnly`, answers from the cache and never calls the endpoint
+async function introspect(
+  config: AuthConfig,
+  oauth: OAuthConfig,
+  token: string,
+  cachedOnly = false
+): Promise<Principal | undefined> {
+  const resource = resourceUrl(oauth);
+  const cacheKey = digest(token).toString("hex");
+  const cached = introspected.get(cacheKey);
+  if (cached) {
+    if (cached.expiresAt > Date.now()) return cached.principal;
+    introspected.delete(cacheKey);
+  }
+  if (cachedOnly) return undefined;
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  };
+  if (oauth.clientId) {
+    headers.Authorization = `Basic ${Buffer.from(
+      `${oauth.clientId}:${oauth.clientSecret ?? ""}`
+    ).toString("base64")}`;
+  }
+  const res = await fetch(oauth.introspectionUrl, {
+    method: "POST",
+    headers,
+    body: new URLSearchParams({ token }),
+    signal: AbortSignal.timeout(10_000),
+  });
+  if (!res.ok) throw new Error(`Token introspection failed with HTTP ${res.status}`);
+
+  const data = (await res.json()) as {
+    active?: boolean;
+    sub?: string;
+    client_id?: string;
+    exp?: number;
+    aud?: string | string[];
+  };
+  const audiences = data.aud === undefined ? [] : [data.aud].flat();
+  const valid =
+    data.active === true &&
+    (data.exp === undefined || data.exp * 1000 > Date.now()) &&
+    // Tokens issued for another resource must not be accepted here (RFC 8707)
+    (audiences.length === 0 || audiences.includes(resource));
+
+  const principal = valid
+    ? {
+        name: `oauth:${data.sub ?? data.client_id ?? "client"}`,
+        ratePerMinute: config.ratePerMinute,
+        dailyQuota: config.dailyQuota,
+      }
+    : undefined;
+  cacheIntrospection(
+    cacheKey,
+    principal,
+    principal
+      ? Math.min(Date.now() + INTROSPECTION_TTL_MS, data.exp ? data.exp * 1000 : Infinity)
+      : Date.now() + INTROSPECTION_NEGATIVE_TTL_MS
+  );
+  return principal;
+}
+
+// ─── Rate limits and quotas ──────────────────────────────────────────────────
+
+interface Usage {
+  minute: number;
+  minuteCount: number;
+  day: string;
+  dayCount: number;
+}
+
+const usage = new Map<string, Usage>();
+
+// Counts one request; returns the rejection to send, if any
+function consume(
+  principal: Principal
+): { status: number; code: number; message: string; retryAfter: number } | undefined {
+  const now = Date.now();
+  const minute = Math.floor(now / 60_000);
+  const day = new Date(now).toISOString().slice(0, 10);
+
+  const entry = usage.get(principal.name) ?? { minute, minuteCount: 0, day, dayCount: 0 };
+  if (entry.minute !== minute) {
+    entry.minute = minute;
+    entry.minuteCount = 0;
+  }
+  if (entry.day !== day) {
+    entry.day = day;
+    entry.dayCount = 0;
+  }
+  usage.set(principal.name, entry);
+
+  if (principal.dailyQuota > 0 && entry.dayCount >= principal.dailyQuota) {
+    const midnight = Date.parse(`${day}T00:00:00Z`) + 86_400_000;
+    return {
+      status: 429,
+      code: JSONRPC_QUOTA_EXCEEDED,
+      message: `Daily quota of ${principal.dailyQuota} requests exceeded for ${principal.name}; resets at 00:00 UTC`,
+      retryAfter: Math.ceil((midnight - now) / 1000),
+    };
+  }
+  if (entry.minuteCount >= principal.ratePerMinute) {
+    return {
+      status: 429,
+      code: JSONRPC_RATE_LIMITED,
+      message: `Rate limit of ${principal.ratePerMinute} requests per minute exceeded for ${principal.name}`,
+      retryAfter: Math.ceil(((minute + 1) * 60_000 - now) / 1000),
+    };
+  }
+
+  entry.minuteCount++;
+  entry.dayCount++;
+  return undefined;
+}
+
+// ─── Failed attempts ─────────────────────────────────────────────────────────
+
+const failures = new Map<string, { minute: number; count: number }>();
+
+function clientIp(req: Request): string {
+  return req.ip ?? req.socket.remoteAddress ?? "unknown";
+}
+
+// Seconds until the client may try again, or undefined if it isn't locked out
+function lockedOut(ip: string): number | undefined {
+  const now = Date.now();
+  const minute = Math.floor(now / 60_000);
+  const entry = failures.get(ip);
+  if (!entry || entry.minute !== minute || entry.count < MAX_AUTH_FAILURES_PER_MINUTE) return undefined;
+  return Math.ceil(((minute + 1) * 60_000 - now) / 1000);
+}
+
+function recordFailure(ip: string): void {
+  const minute = Math.floor(Date.now() / 60_000);
+  const entry = failures.get(ip);
+  if (entry && entry.minute === minute) {
+    entry.count++;
+    return;
+  }
+  if (failures.size >= MAX_TRACKED_CLIENTS) {
+    for (const [k, stale] of failures) {
+      if (stale.minute !== minute) failures.delete(k);
+    }
+  }
+  // Still full of clients failing this minute: drop the oldest rather than grow
+  if (failures.size >= MAX_TRACKED_CLIENTS) failures.delete(failures.keys().next().value!);
+  failures.set(ip, { minute, count: 1 });
+}
+
+// ─── Middleware ──────────────────────────────────────────────────────────────
+
+// Authenticates the request, applies the principal's limits and leaves the
+// principal in res.locals.principal for later handlers.
+export function authMiddleware(config: AuthConfig): RequestHandler {
+  return async (req, res, next) => {
+    if (!authEnabled(config)) return next();
+
+    const unauthorized = (message: string) => {
+      res.setHeader(
+        "WWW-Authenticate",
+        config.oauth
+          ? `Bearer resource_metadata="${config.oauth.publicUrl}/.well-known/oauth-protected-resource/mcp"`
+          : 'Bearer realm="mcp"'
+      );
+      sendJsonRpcError(req, res, 401, JSONRPC_UNAUTHORIZED, message);
+    };
+
+    const token = presentedToken(req);
+    if (!token) {
+      unauthorized("Missing credentials: send an API key as `Authorization: Bearer <key>`");
+      return;
+    }
+
+    const ip = clientIp(req);
+    const retryAfter = lockedOut(ip);
+
+    let principal: Principal | undefined;
+    const key = matchApiKey(config, token);
+    if (key) {
+      principal = {
+        name: key.name,
+        ratePerMinute: key.rate_per_minute ?? config.ratePerMinute,
+        dailyQuota: key.daily_quota ?? config.dailyQuota,
+      };
+    } else if (config.oauth) {
+      try {
+        // A locked-out client only gets answers the cache already has
+        principal = await introspect(config, config.oauth, token, retryAfter !== undefined);
+      } catch (err) {
+        // The authorization server is down: not the client's fault
+        log.error("OAuth token introspection failed", { err });
+        sendJsonRpcError(
+          req,
+          res,
+          503,
+          JSONRPC_AUTH_UNAVAILABLE,
+          "Token validation is unavailable; try again later"
+        );
+        return;
+      }
+    }
+    if (!principal && retryAfter !== undefined) {
+      res.setHeader("Retry-After", String(retryAfter));
+      sendJsonRpcError(req, res, 429, JSONRPC_RATE_LIMITED, "Too many failed authentication attempts");
+      return;
+    }
+    if (!principal) {
+      recordFailure(ip);
+      unauthorized("Invalid or expired credentials");
+      return;
+    }
+
+    const rejection = consume(principal);
+    if (rejection) {
+      res.setHeader("Retry-After", String(rejection.retryAfter));
+      sendJsonRpcError(req, res, rejection.status, rejection.code, rejection.message);
+      return;
+    }
+
+    res.locals.principal = principal;
+    next();
+  };
+}
+
+// OAuth 2.0 Protected Resource Metadata (RFC 9728): tells MCP clients such as
+// the Claude.ai connector which authorization server issues tokens for /mcp.
+export function protectedResourceMetadata(config: AuthConfig): RequestHandler {
+  return (_req, res) => {
+    if (!config.oauth) {
+      res.sendStatus(404);
+      return;
+    }
+    res.json({
+      resource: resourceUrl(config.oauth),
+      authorization_servers: [config.oauth.issuer],
+      bearer_methods_supported: ["header"],
+      resource_name: "Superhuman Newsletter MCP",
+    });
+  };
+}
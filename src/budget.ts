@@ -0,0 +1,185 @@
+import type { PostContent } from "./types.js";
+
+// ─── Content budget ──────────────────────────────────────────────────────────
+// A 30-post digest can exceed a client's context window. Posts are shaped
+// before formatting: first by detail level and image stripping, then — if a
+// character budget is set — by trimming post bodies evenly. Trimming is
+// "water-filling": short posts stay whole and the remaining space is split
+// equally among the longer ones, each cut at a paragraph boundary. In full
+// detail a post's section bodies repeat its body, so they count against its
+// share too, and a post that has to be cut loses them.
+
+export type DetailLevel = "full" | "summary" | "headlines";
+
+export interface ShapeOptions {
+  detail?: DetailLevel;
+  images?: boolean;
+}
+
+export interface TrimReport {
+  detail: DetailLevel;
+  images_stripped: boolean;
+  max_chars?: number;
+  trimmed_posts: number;
+  chars_cut: number;
+  links_dropped: boolean;
+}
+
+// Rough chars-per-token ratio for English markdown
+export const CHARS_PER_TOKEN = 4;
+
+const TRIM_MARKER_RESERVE = 40;
+
+export function stripImages(markdown: string): string {
+  return markdown
+    .replace(/!\[[^\]]*\]\([^)]*\)\n?/g, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function firstParagraph(markdown: string): string {
+  return (
+    markdown
+      .split(/\n{2,}/)
+      .map((p) => p.trim())
+      .find((p) => p && !/^!\[[^\]]*\]\([^)]*\)$/.test(p)) ?? ""
+  );
+}
+
+// Heading plus first paragraph of every section
+function summarize(post: PostContent): string {
+  if (post.sections.length === 0) return firstParagraph(post.content_markdown);
+  return post.sections
+    .map((section) =>
+      [section.heading ? `### ${section.heading}` : "", firstParagraph(section.content_markdown)]
+        .filter(Boolean)
+        .join("\n\n")
+    )
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+// Cuts at the last paragraph (or line) break that fits and notes how much was
+// dropped.
+export function truncateMarkdown(text: string, limit: number): string {
+  if (text.length <= limit) return text;
+  const room = Math.max(0, limit - TRIM_MARKER_RESERVE);
+  let cut = text.lastIndexOf("\n\n", room);
+  if (cut <= 0) cut = text.lastIndexOf("\n", room);
+  if (cut <= 0) cut = room;
+  const kept = text.slice(0, cut).trimEnd();
+  return `${kept}${kept ? "\n\n" : ""}_[… ${text.length - kept.length} chars trimmed]_`;
+}
+
+// Length of text as it will be returned, e.g. JSON-escaped
+export type Measure = (text: string) => number;
+
+const rawLength: Measure = (text) => text.length;
+
+// A post's trimmable text: its body plus its section bodies
+function bodyLength(post: PostContent, measure: Measure): number {
+  return post.sections.reduce(
+    (n, section) => n + measure(section.content_markdown),
+    measure(post.content_markdown)
+  );
+}
+
+// truncateMarkdown, shortened further until the measured length fits
+function truncateToFit(text: string, cap: number, measure: Measure): string {
+  let limit = cap;
+  let result = truncateMarkdown(text, limit);
+  while (limit > 0 && measure(result) > cap) {
+    limit -= measure(result) - cap;
+    result = truncateMarkdown(text, Math.max(0, limit));
+  }
+  return result;
+}
+
+// Largest per-post cap such that all bodies fit in `available` characters
+function fairShare(lengths: number[], available: number): number {
+  const sorted = [...lengths].sort((a, b) => a - b);
+  let remaining = available;
+  for (let i = 0; i < sorted.length; i++) {
+    const share = remaining / (sorted.length - i);
+    if (sorted[i] > share) return Math.floor(share);
+    remaining -= sorted[i];
+  }
+  return Infinity;
+}
+
+export function shapePosts(
+  posts: PostContent[],
+  { detail = "full", images = true }: ShapeOptions
+): { posts: PostContent[]; report: TrimReport } {
+  const report: TrimReport = {
+    detail,
+    images_stripped: !images,
+    trimmed_posts: 0,
+    chars_cut: 0,
+    links_dropped: false,
+  };
+
+  const shaped = posts.map((post) => {
+    let content =
+      detail === "headlines" ? "" : detail === "summary" ? summarize(post) : post.content_markdown;
+    if (!images) content = stripImages(content);
+    return {
+      ...post,
+      content_markdown: content,
+      external_links: detail === "headlines" ? [] : post.external_links,
+      sections:
+        detail === "full"
+          ? post.sections
+          : post.sections.map((section) => ({ ...section, content_markdown: "" })),
+      featured_image: images ? post.featured_image : undefined,
+    };
+  });
+
+  return { posts: shaped, report };
+}
+
+// Trims post bodies so that together with their section bodies they fit in
+// `bodyBudget` characters (as counted by `measure`), recording what was cut in
+// `report`. Trimmed posts keep their sections' headings, links and tags.
+export function trimToBudget(
+  posts: PostContent[],
+  bodyBudget: number,
+  report: TrimReport,
+  measure: Measure = rawLength
+): PostContent[] {
+  const cap = fairShare(
+    posts.map((post) => bodyLength(post, measure)),
+    Math.max(0, bodyBudget)
+  );
+  return posts.map((post) => {
+    const length = bodyLength(post, measure);
+    if (length <= cap) return post;
+    const content = truncateToFit(post.content_markdown, cap, measure);
+    report.trimmed_posts++;
+    report.chars_cut += length - measure(content);
+    return {
+      ...post,
+      content_markdown: content,
+      sections: post.sections.map((section) => ({ ...section, content_markdown: "" })),
+    };
+  });
+}
+
+export function formatTrimReport(report: TrimReport): string {
+  const parts = [`detail: ${report.detail}`];
+  if (report.images_stripped) parts.push("images stripped");
+  if (report.max_chars !== undefined) {
+    parts.push(
+      `budget ${report.max_chars.toLocaleString("en-US")} chars (~${Math.round(
+        report.max_chars / CHARS_PER_TOKEN
+      ).toLocaleString("en-US")} tokens)`
+    );
+    parts.push(
+      report.trimmed_posts > 0
+        ? `${report.trimmed_posts} posts trimmed, ${report.chars_cut.toLocaleString("en-US")} chars cut`
+        : "nothing trimmed"
+    );
+  }
+  if (report.links_dropped) parts.push("link lists dropped to fit");
+  return parts.join("; ");
+}
@@ -0,0 +1,184 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { log } from "./logger.js";
+import { cacheLookups } from "./metrics.js";
+import type { NewsletterSource } from "./sources.js";
+import type { PostContent, PostListing } from "./types.js";
+
+// ─── On-disk cache ───────────────────────────────────────────────────────────
+// Published posts never change, so scraped PostContent is stored as JSON under
+// {dir}/{source}/posts/{slug}.json and reused forever. Listing pages and feeds
+// do change as new posts appear, so they are stored with a fetch time and
+// expire after NEWSLETTER_LISTING_TTL_SECONDS (default 15 minutes). Resolved
+// link destinations are stored under {dir}/links/ and kept for a week.
+//
+//   NEWSLETTER_CACHE_DIR            cache root (default ~/.cache/superhuman-newsletter-mcp)
+//   NEWSLETTER_CACHE=off            disable the cache entirely
+//   NEWSLETTER_LISTING_TTL_SECONDS  listing page TTL
+
+export interface CacheCounter {
+  hits: number;
+  misses: number;
+}
+
+export interface CacheStats {
+  // from_feed: not cached, but built from the feed's full content without a
+  // page request
+  posts: CacheCounter & { from_feed: number };
+  listings: CacheCounter;
+}
+
+// An archive page number, or the source's feed
+export type ListingPage = number | "feed";
+
+interface CachedListingPage {
+  fetched_at: string;
+  listings: PostListing[];
+}
+
+const DEFAULT_LISTING_TTL_SECONDS = 15 * 60;
+const LINK_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function newCacheStats(): CacheStats {
+  return {
+    posts: { hits: 0, misses: 0, from_feed: 0 },
+    listings: { hits: 0, misses: 0 },
+  };
+}
+
+export function cacheEnabled(): boolean {
+  return process.env.NEWSLETTER_CACHE !== "off";
+}
+
+function cacheDir(): string {
+  return (
+    process.env.NEWSLETTER_CACHE_DIR ??
+    join(homedir(), ".cache", "superhuman-newsletter-mcp")
+  );
+}
+
+function listingTtlMs(): number {
+  const seconds = Number(process.env.NEWSLETTER_LISTING_TTL_SECONDS);
+  return (Number.isFinite(seconds) && seconds >= 0
+    ? seconds
+    : DEFAULT_LISTING_TTL_SECONDS) * 1000;
+}
+
+function postPath(source: NewsletterSource, slug: string): string {
+  return join(cacheDir(), source.id, "posts", `${encodeURIComponent(slug)}.json`);
+}
+
+function listingPath(source: NewsletterSource, page: ListingPage): string {
+  return join(
+    cacheDir(),
+    source.id,
+    "listings",
+    page === "feed" ? "feed.json" : `page-${page}.json`
+  );
+}
+
+export async function readJson<T>(path: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await readFile(path, "utf8")) as T;
+  } catch {
+    // Missing or corrupt entry — treat as a miss
+    return undefined;
+  }
+}
+
+// Writes via a temp file + rename so concurrent readers never see half a file
+async function writeJson(path: string, value: unknown): Promise<void> {
+  try {
+    await mkdir(dirname(path), { recursive: true });
+    const tmp = `${path}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(value, null, 2));
+    await rename(tmp, path);
+  } catch (err) {
+    // A read-only or full disk shouldn't fail the tool call
+    log.error("cache write failed", { path, err });
+  }
+}
+
+// ─── Posts ───────────────────────────────────────────────────────────────────
+
+export async function readCachedPost(
+  source: NewsletterSource,
+  slug: string
+): Promise<PostContent | undefined> {
+  if (!cacheEnabled()) return undefined;
+  const post = await readJson<PostContent>(postPath(source, slug));
+  cacheLookups.inc({ kind: "posts", result: post ? "hit" : "miss" });
+  return post;
+}
+
+export async function writeCachedPost(
+  source: NewsletterSource,
+  post: PostContent
+): Promise<void> {
+  if (!cacheEnabled()) return;
+  await writeJson(postPath(source, post.slug), post);
+}
+
+// ─── Listing pages ───────────────────────────────────────────────────────────
+
+export async function readCachedListings(
+  source: NewsletterSource,
+  page: ListingPage
+): Promise<PostListing[] | undefined> {
+  if (!cacheEnabled()) return undefined;
+  const cached = await readJson<CachedListingPage>(listingPath(source, page));
+  const age = cached ? Date.now() - new Date(cached.fetched_at).getTime() : -1;
+  const fresh = age >= 0 && age < listingTtlMs();
+  cacheLookups.inc({ kind: "listings", result: fresh ? "hit" : "miss" });
+  return fresh ? cached!.listings : undefined;
+}
+
+export async function writeCachedListings(
+  source: NewsletterSource,
+  page: ListingPage,
+  listings: PostListing[]
+): Promise<void> {
+  if (!cacheEnabled()) return;
+  const entry: CachedListingPage = {
+    fetched_at: new Date().toISOString(),
+    listings,
+  };
+  await writeJson(listingPath(source, page), entry);
+}
+
+// ─── Links ───────────────────────────────────────────────────────────────────
+
+interface CachedLink<T> {
+  fetched_at: string;
+  link: T;
+}
+
+function linkPath(url: string): string {
+  const hash = createHash("sha1").update(url).digest("hex");
+  return join(cacheDir(), "links", `${hash}.json`);
+}
+
+export async function readCachedLink<T>(url: string): Promise<T | undefined> {
+  if (!cacheEnabled()) return undefined;
+  const cached = await readJson<CachedLink<T>>(linkPath(url));
+  const fresh = cached !== undefined && Date.now() - Date.parse(cached.fetched_at) < LINK_TTL_MS;
+  cacheLookups.inc({ kind: "links", result: fresh ? "hit" : "miss" });
+  return fresh ? cached.link : undefined;
+}
+
+export async function writeCachedLink<T>(url: string, link: T): Promise<void> {
+  if (!cacheEnabled()) return;
+  const entry: CachedLink<T> = { fetched_at: new Date().toISOString(), link };
+  await writeJson(linkPath(url), entry);
+}
+
+export function formatCacheStats(stats: CacheStats): string {
+  const { posts, listings } = stats;
+  return (
+    `${posts.hits}/${posts.hits + posts.misses + posts.from_feed} posts and ` +
+    `${listings.hits}/${listings.hits + listings.misses} listing pages served from cache` +
+    (posts.from_feed > 0 ? `, ${posts.from_feed} posts read from the feed` : "")
+  );
+}
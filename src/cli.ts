@@ -0,0 +1,261 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { writeFile } from "fs/promises";
+import { parseArgs } from "util";
+import type { ZodType } from "zod";
+import type { DetailLevel } from "./budget.js";
+import type { LinkEnrichment } from "./links.js";
+import {
+  countSchema,
+  fetchNewsletter,
+  fetchOptionsShape,
+  getNewsletterPost,
+  searchLimitSchema,
+  searchMaxPostsSchema,
+  searchNewsletters,
+  type OutputFormat,
+  type OutputOptions,
+} from "./server.js";
+import { getSource, listSources } from "./sources.js";
+
+// ─── Command line ────────────────────────────────────────────────────────────
+// Besides serving MCP, the binary runs one-off commands for shell scripts and
+// cron jobs. Each runs the same handler as the matching tool and prints what
+// the tool returns: the markdown text, or with --format json the structured
+// result. Logs still go to stderr, at warn level unless NEWSLETTER_LOG_LEVEL
+// says otherwise.
+//
+// Exit codes: 0 success, 1 failure, 2 bad usage, 3 some posts could not be
+// fetched (the output still has the others).
+
+const USAGE = `Usage: superhuman-newsletter-mcp <command> [options]
+
+Commands:
+  fetch --source <id>        Recent posts from one source (like fetch_newsletter)
+  get <url>                  One post by URL, or --source <id> --slug <slug>
+  search <query>             Full-text search across the archives
+  list-sources               Configured newsletter sources
+
+Options:
+  --format markdown|json     Output format (default markdown)
+  -o, --output <file>        Write to a file instead of stdout
+  --refresh                  Bypass the local cache
+  --source <id>              Source id (search: repeat to search several)
+  --count <n>                fetch: number of posts
+  --since <date>             fetch/search: posts on or after this date ("7 days ago", 2026-02-16)
+  --until <date>             fetch/search: posts on or before this date
+  --detail full|summary|headlines
+  --no-images                Leave out images
+  --max-tokens <n>           Approximate token budget for the output
+  --max-chars <n>            Character budget for the output
+  --enrich-links none|resolve|metadata
+  --topic <id>               fetch: only stories with this topic (repeatable)
+  --entity <name>            fetch: only stories mentioning this company, product or model (repeatable)
+  --max-posts <n>            search: posts indexed per source
+  --limit <n>                search: number of results (default 10)
+  -h, --help                 Show this help
+
+Without a command the MCP server starts (stdio, or HTTP with --http or PORT).`;
+
+export const CLI_COMMANDS = ["fetch", "get", "search", "list-sources", "help"];
+
+// Exit codes
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+const EXIT_PARTIAL = 3;
+
+class UsageError extends Error {}
+
+const OPTIONS = {
+  format: { type: "string" },
+  output: { type: "string", short: "o" },
+  refresh: { type: "boolean" },
+  source: { type: "string", multiple: true },
+  slug: { type: "string" },
+  count: { type: "string" },
+  since: { type: "string" },
+  until: { type: "string" },
+  detail: { type: "string" },
+  "no-images": { type: "boolean" },
+  "max-tokens": { type: "string" },
+  "max-chars": { type: "string" },
+  "enrich-links": { type: "string" },
+  topic: { type: "string", multiple: true },
+  entity: { type: "string", multiple: true },
+  "max-posts": { type: "string" },
+  limit: { type: "string" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+type Values = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>["values"];
+
+// A whole-number option, checked against the bounds of the matching tool argument
+function integer(
+  values: Values,
+  name: "count" | "max-tokens" | "max-chars" | "max-posts" | "limit",
+  schema: ZodType<number | undefined>
+) {
+  const value = values[name];
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!value.trim() || !Number.isInteger(n)) throw new UsageError(`--${name} must be a whole number`);
+  const parsed = schema.safeParse(n);
+  if (!parsed.success) throw new UsageError(`--${name}: ${parsed.error.issues[0].message}`);
+  return n;
+}
+
+function oneOf<T extends string>(values: Values, name: "format" | "detail" | "enrich-links", allowed: readonly T[]) {
+  const value = values[name];
+  if (value === undefined) return undefined;
+  if (!allowed.includes(value as T)) {
+    throw new UsageError(`--${name} must be one of: ${allowed.join(", ")}`);
+  }
+  return value as T;
+}
+
+// The single --source a command takes
+function singleSource(values: Values): string | undefined {
+  if ((values.source?.length ?? 0) > 1) throw new UsageError("--source can only be given once");
+  return values.source?.[0];
+}
+
+function outputOptions(values: Values, format: OutputFormat): OutputOptions {
+  return {
+    output_format: format,
+    detail: oneOf<DetailLevel>(values, "detail", ["full", "summary", "headlines"]),
+    include_images: values["no-images"] ? false : undefined,
+    max_tokens: integer(values, "max-tokens", fetchOptionsShape.max_tokens),
+    max_chars: integer(values, "max-chars", fetchOptionsShape.max_chars),
+  };
+}
+
+async function runCommand(
+  command: string,
+  positionals: string[],
+  values: Values,
+  format: OutputFormat
+): Promise<CallToolResult> {
+  const enrich_links = oneOf<LinkEnrichment>(values, "enrich-links", ["none", "resolve", "metadata"]);
+  switch (command) {
+    case "fetch": {
+      const sourceId = singleSource(values);
+      if (!sourceId) throw new UsageError("fetch needs --source <id>");
+      if (positionals.length > 0) throw new UsageError(`Unexpected argument: ${positionals[0]}`);
+      return fetchNewsletter(getSource(sourceId), {
+        count: integer(values, "count", countSchema),
+        since: values.since,
+        until: values.until,
+        refresh: values.refresh,
+        enrich_links,
+        topics: values.topic,
+        entities: values.entity,
+        ...outputOptions(values, format),
+      });
+    }
+    case "get": {
+      const source = singleSource(values);
+      if (positionals.length > 1) throw new UsageError(`Unexpected argument: ${positionals[1]}`);
+      if (!positionals[0] && !(source && values.slug)) {
+        throw new UsageError("get needs a post URL, or --source <id> --slug <slug>");
+      }
+      return getNewsletterPost({
+        url: positionals[0],
+        source,
+        slug: values.slug,
+        refresh: values.refresh,
+        enrich_links,
+        ...outputOptions(values, format),
+      });
+    }
+    case "search": {
+      const query = positionals.join(" ").trim();
+      if (!query) throw new UsageError("search needs a query");
+      return searchNewsletters({
+        query,
+        sources: values.source,
+        since: values.since,
+        until: values.until,
+        max_posts: integer(values, "max-posts", searchMaxPostsSchema),
+        limit: integer(values, "limit", searchLimitSchema),
+        refresh: values.refresh,
+      });
+    }
+    case "list-sources": {
+      const sources = listSources().map((source) => ({
+        id: source.id,
+        name: source.name,
+        url: source.baseUrl,
+        feed: source.feed ?? undefined,
+        default_count: source.defaultCount,
+        max_count: source.maxCount,
+      }));
+      const text = sources
+        .map(
+          (source) =>
+            `${source.id}\t${source.name}\t${source.url}\t(default ${source.default_count}, max ${source.max_count} posts)`
+        )
+        .join("\n");
+      return { content: [{ type: "text" as const, text }], structuredContent: { sources } };
+    }
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+}
+
+// True when the result includes placeholders for posts that failed to fetch
+function hasFailedPosts(result: CallToolResult): boolean {
+  const posts = (result.structuredContent as { posts?: { fetch_error?: unknown }[] } | undefined)?.posts;
+  return posts?.some((post) => post.fetch_error) ?? false;
+}
+
+// Runs a command line (without the node and script arguments) and returns the
+// process exit code
+export async function runCli(args: string[]): Promise<number> {
+  process.env.NEWSLETTER_LOG_LEVEL ??= "warn";
+
+  let result: CallToolResult;
+  let values: Values;
+  let format: OutputFormat;
+  try {
+    const parsed = parseArgs({ args, options: OPTIONS, allowPositionals: true });
+    values = parsed.values;
+    const [command, ...positionals] = parsed.positionals;
+    if (values.help || command === "help") {
+      process.stdout.write(USAGE + "\n");
+      return EXIT_OK;
+    }
+    format = oneOf<OutputFormat>(values, "format", ["markdown", "json"]) ?? "markdown";
+    result = await runCommand(command, positionals, values, format);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    // parseArgs reports unknown and malformed options as TypeErrors
+    if (err instanceof UsageError || (err as { code?: string }).code?.startsWith("ERR_PARSE_ARGS")) {
+      process.stderr.write(`${message}\n\n${USAGE}\n`);
+      return EXIT_USAGE;
+    }
+    process.stderr.write(`Error: ${message}\n`);
+    return EXIT_FAILURE;
+  }
+
+  const text = result.content.find((item) => item.type === "text")?.text ?? "";
+  if (result.isError) {
+    process.stderr.write(`${text}\n`);
+    return EXIT_FAILURE;
+  }
+
+  const output =
+    format === "json" && result.structuredContent
+      ? JSON.stringify(result.structuredContent, null, 2)
+      : text;
+  if (values.output) {
+    try {
+      await writeFile(values.output, output + "\n");
+    } catch (err) {
+      process.stderr.write(`Error: ${err instanceof Error ? err.message : String(err)}\n`);
+      return EXIT_FAILURE;
+    }
+  } else {
+    process.stdout.write(output + "\n");
+  }
+  return hasFailedPosts(result) ? EXIT_PARTIAL : EXIT_OK;
+}
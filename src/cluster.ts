@@ -0,0 +1,173 @@
+import { tokenize } from "./search.js";
+import type { PostContent, PostLink, PostSection, PostTags } from "./types.js";
+
+// ─── Story clustering ────────────────────────────────────────────────────────
+// The same launch or funding round is often covered in several issues and in
+// both newsletters. We break each post into stories — whole "story" sections,
+// plus each bullet of tool and quick-hit roundups — and join two stories when
+// they cite the same article (normalized URL) or their text is similar enough
+// (token Jaccard). Connected stories form one cluster.
+
+const SIMILARITY_THRESHOLD = 0.35;
+// Only the start of a story is compared; long stories drift into background
+const COMPARE_CHARS = 600;
+const MIN_TOKENS = 4;
+
+export interface Story {
+  source: string;
+  post: PostContent;
+  heading: string;
+  content_markdown: string;
+  links: PostLink[];
+}
+
+export interface StoryCluster {
+  headline: string;
+  // Longest story text in the cluster, used as the representative body
+  content_markdown: string;
+  stories: Story[];
+  sources: string[];
+  links: PostLink[];
+  // Set when the stories were tagged (see tags.ts)
+  tags?: PostTags;
+}
+
+const BULLET = /^\s*[-*]\s+/;
+const MARKDOWN_LINK = /\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g;
+
+// Splits a roundup section into one story per top-level bullet
+function bulletStories(section: PostSection): Omit<Story, "source" | "post">[] {
+  const items: string[] = [];
+  for (const line of section.content_markdown.split("\n")) {
+    if (BULLET.test(line)) items.push(line.replace(BULLET, ""));
+    else if (items.length > 0 && line.trim()) items[items.length - 1] += " " + line.trim();
+  }
+
+  return items.map((item) => {
+    const links: PostLink[] = [];
+    for (const [, text, url] of item.matchAll(MARKDOWN_LINK)) {
+      if (section.links.some((l) => l.url === url)) links.push({ text, url });
+    }
+    const heading = item.replace(MARKDOWN_LINK, "$1").replace(/[*_`]+/g, "");
+    return {
+      heading: heading.length > 100 ? heading.slice(0, 97) + "…" : heading,
+      content_markdown: item,
+      links,
+    };
+  });
+}
+
+export function extractStories(source: string, post: PostContent): Story[] {
+  const stories: Story[] = [];
+  for (const section of post.sections) {
+    if (section.type === "story") {
+      stories.push({
+        source,
+        post,
+        heading: section.heading,
+        content_markdown: section.content_markdown,
+        links: section.links,
+      });
+    } else if (section.type === "tools" || section.type === "quick_hits") {
+      for (const item of bulletStories(section)) stories.push({ source, post, ...item });
+    }
+  }
+
+  // A post without recognisable stories is one story
+  if (stories.length === 0) {
+    stories.push({
+      source,
+      post,
+      heading: post.title,
+      content_markdown: post.content_markdown,
+      links: post.external_links,
+    });
+  }
+  return stories;
+}
+
+// Drops query strings, fragments, "www." and trailing slashes. Bare homepages
+// are too generic to identify an event, so they normalize to undefined.
+export function normalizeUrl(url: string): string | undefined {
+  try {
+    const parsed = new URL(url);
+    const path = parsed.pathname.replace(/\/+$/, "");
+    if (!path) return undefined;
+    return `${parsed.hostname.replace(/^www\./, "").toLowerCase()}${path}`;
+  } catch {
+    return undefined;
+  }
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const token of a) if (b.has(token)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+export function clusterStories(stories: Story[]): StoryCluster[] {
+  const parent = stories.map((_, i) => i);
+  const find = (i: number): number =>
+    parent[i] === i ? i : (parent[i] = find(parent[i]));
+  const union = (a: number, b: number) => {
+    parent[find(a)] = find(b);
+  };
+
+  // Shared article URLs
+  const byUrl = new Map<string, number>();
+  stories.forEach((story, i) => {
+    for (const link of story.links) {
+      const key = normalizeUrl(link.url);
+      if (!key) continue;
+      const first = byUrl.get(key);
+      if (first === undefined) byUrl.set(key, i);
+      else union(first, i);
+    }
+  });
+
+  // Similar text
+  const tokens = stories.map(
+    (story) =>
+      new Set(tokenize(`${story.heading} ${story.content_markdown.slice(0, COMPARE_CHARS)}`))
+  );
+  for (let i = 0; i < stories.length; i++) {
+    if (tokens[i].size < MIN_TOKENS) continue;
+    for (let j = i + 1; j < stories.length; j++) {
+      if (stories[i].post === stories[j].post || tokens[j].size < MIN_TOKENS) continue;
+      if (jaccard(tokens[i], tokens[j]) >= SIMILARITY_THRESHOLD) union(i, j);
+    }
+  }
+
+  const groups = new Map<number, Story[]>();
+  stories.forEach((story, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), story]);
+  });
+
+  const clusters: StoryCluster[] = [...groups.values()].map((group) => {
+    const representative = group.reduce((best, story) =>
+      story.content_markdown.length > best.content_markdown.length ? story : best
+    );
+    const seen = new Set<string>();
+    const links: PostLink[] = [];
+    for (const link of group.flatMap((story) => story.links)) {
+      const key = normalizeUrl(link.url) ?? link.url;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      links.push(link);
+    }
+    return {
+      headline: representative.heading,
+      content_markdown: representative.content_markdown,
+      stories: group,
+      sources: [...new Set(group.map((story) => story.source))],
+      links,
+    };
+  });
+
+  // Most widely covered first
+  return clusters.sort(
+    (a, b) => b.sources.length - a.sources.length || b.stories.length - a.stories.length
+  );
+}
@@ -0,0 +1,170 @@
+// ─── Date parsing ────────────────────────────────────────────────────────────
+// Beehiiv listing cards show either an absolute date ("Feb 21, 2026") or a
+// relative one ("3 hours ago", "Yesterday"). Tool inputs accept ISO dates and
+// the same relative forms. Everything is resolved in the server's local time.
+
+export interface DateWindow {
+  since?: Date;
+  until?: Date;
+}
+
+const MONTHS = [
+  "jan", "feb", "mar", "apr", "may", "jun",
+  "jul", "aug", "sep", "oct", "nov", "dec",
+];
+
+const UNIT_MS: Record<string, number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+function monthIndex(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+interface ParsedDate {
+  date: Date;
+  // True when the text named a calendar day rather than a moment
+  dateOnly: boolean;
+}
+
+function relativeDate(text: string, now: Date): ParsedDate | undefined {
+  const lower = text.toLowerCase();
+
+  if (lower === "just now" || lower === "now") {
+    return { date: now, dateOnly: false };
+  }
+  if (lower === "today") return { date: startOfDay(now), dateOnly: true };
+  if (lower === "yesterday") {
+    const d = startOfDay(now);
+    d.setDate(d.getDate() - 1);
+    return { date: d, dateOnly: true };
+  }
+
+  const m = lower.match(
+    /^(\d+|an?)\s+(second|minute|hour|day|week|month|year)s?\s+ago$/
+  );
+  if (!m) return undefined;
+
+  const amount = m[1] === "a" || m[1] === "an" ? 1 : Number(m[1]);
+  const unit = m[2];
+  if (unit === "month" || unit === "year") {
+    const d = new Date(now);
+    if (unit === "month") d.setMonth(d.getMonth() - amount);
+    else d.setFullYear(d.getFullYear() - amount);
+    return { date: d, dateOnly: false };
+  }
+  return { date: new Date(now.getTime() - amount * UNIT_MS[unit]), dateOnly: false };
+}
+
+function parseDate(raw: string, now: Date): ParsedDate | undefined {
+  const text = raw.trim().replace(/\s+/g, " ");
+  if (!text) return undefined;
+
+  const relative = relativeDate(text, now);
+  if (relative) return relative;
+
+  // ISO date or timestamp: 2026-02-21 / 2026-02-21T09:00:00Z
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})(T.*)?$/);
+  if (iso) {
+    const date = iso[4]
+      ? new Date(text)
+      : new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+    return isNaN(date.getTime()) ? undefined : { date, dateOnly: !iso[4] };
+  }
+
+  // "Feb 21, 2026" / "February 21 2026" / "Feb 21"
+  let m = text.match(/^([a-z]+)\.? (\d{1,2})(?:st|nd|rd|th)?(?:,? (\d{4}))?$/i);
+  let month: number, day: number, year: number | undefined;
+  if (m) {
+    month = monthIndex(m[1]);
+    day = Number(m[2]);
+    year = m[3] ? Number(m[3]) : undefined;
+  } else {
+    // "21 Feb 2026" / "21 February"
+    m = text.match(/^(\d{1,2}) ([a-z]+)\.?(?:,? (\d{4}))?$/i);
+    if (!m) return undefined;
+    day = Number(m[1]);
+    month = monthIndex(m[2]);
+    year = m[3] ? Number(m[3]) : undefined;
+  }
+  if (month < 0 || day < 1 || day > 31) return undefined;
+
+  if (year === undefined) {
+    // Year omitted means the current year, unless that lands in the future
+    year = now.getFullYear();
+    if (new Date(year, month, day) > now) year--;
+  }
+  return { date: new Date(year, month, day), dateOnly: true };
+}
+
+/**
+ * Parses a date as shown on a listing card. Returns undefined when the text
+ * is not recognisably a date.
+ */
+export function parseListingDate(
+  raw: string,
+  now: Date = new Date()
+): Date | undefined {
+  return parseDate(raw, now)?.date;
+}
+
+/**
+ * Parses a `since`/`until` tool argument. Date-only values cover the whole
+ * day: "since" snaps to its start and "until" to its end.
+ */
+export function parseDateInput(
+  value: string,
+  edge: "start" | "end",
+  now: Date = new Date()
+): Date {
+  const parsed = parseDate(value, now);
+  if (!parsed) {
+    throw new Error(
+      `Could not parse date "${value}". Use YYYY-MM-DD, an ISO timestamp, or e.g. "7 days ago".`
+    );
+  }
+
+  if (parsed.dateOnly && edge === "end") {
+    const end = new Date(parsed.date);
+    end.setDate(end.getDate() + 1);
+    return new Date(end.getTime() - 1);
+  }
+  return parsed.date;
+}
+
+export function parseWindow(since?: string, until?: string): DateWindow {
+  const window: DateWindow = {
+    since: since ? parseDateInput(since, "start") : undefined,
+    until: until ? parseDateInput(until, "end") : undefined,
+  };
+  if (window.since && window.until && window.since > window.until) {
+    throw new Error(`"since" (${since}) is after "until" (${until})`);
+  }
+  return window;
+}
+
+export function hasWindow(window: DateWindow): boolean {
+  return window.since !== undefined || window.until !== undefined;
+}
+
+export function inWindow(date: Date, window: DateWindow): boolean {
+  if (window.since && date < window.since) return false;
+  if (window.until && date > window.until) return false;
+  return true;
+}
+
+export function formatDate(date: Date): string {
+  return date.toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
@@ -0,0 +1,215 @@
+import { createHash } from "crypto";
+import { deflateRawSync } from "zlib";
+import { escapeHtml } from "./markdown.js";
+
+// ─── EPUB ────────────────────────────────────────────────────────────────────
+// An EPUB 3 book is a ZIP archive: an uncompressed "mimetype" entry first, a
+// container.xml pointing at the package document (metadata, manifest, reading
+// order), a navigation document, and one XHTML file per chapter. The archive
+// is written by hand; it only needs stored and deflated entries.
+
+export interface EpubChapter {
+  title: string;
+  // XHTML body content (see markdownToHtml)
+  body: string;
+  // Table-of-contents group, e.g. the newsletter name
+  group?: string;
+}
+
+export interface EpubBook {
+  title: string;
+  author: string;
+  language?: string;
+  modified: Date;
+  chapters: EpubChapter[];
+}
+
+// ── ZIP ─────────────────────────────────────────────────────────────────────
+
+interface ZipEntry {
+  name: string;
+  data: Buffer;
+  // "mimetype" must be stored uncompressed
+  store?: boolean;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time fields, as ZIP headers store them
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | (date.getUTCSeconds() >> 1),
+    date: ((date.getUTCFullYear() - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate(),
+  };
+}
+
+function zip(entries: ZipEntry[], modified: Date): Buffer {
+  const { time, date } = dosDateTime(modified);
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+    const data = entry.store ? entry.data : deflateRawSync(entry.data);
+    const crc = crc32(entry.data);
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4); // version needed
+    header.writeUInt16LE(0x0800, 6); // UTF-8 names
+    header.writeUInt16LE(entry.store ? 0 : 8, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt32LE(crc, 14);
+    header.writeUInt32LE(data.length, 18);
+    header.writeUInt32LE(entry.data.length, 22);
+    header.writeUInt16LE(name.length, 26);
+    local.push(header, name, data);
+
+    const record = Buffer.alloc(46);
+    record.writeUInt32LE(0x02014b50, 0);
+    record.writeUInt16LE(20, 4); // version made by
+    record.writeUInt16LE(20, 6);
+    record.writeUInt16LE(0x0800, 8);
+    record.writeUInt16LE(entry.store ? 0 : 8, 10);
+    record.writeUInt16LE(time, 12);
+    record.writeUInt16LE(date, 14);
+    record.writeUInt32LE(crc, 16);
+    record.writeUInt32LE(data.length, 20);
+    record.writeUInt32LE(entry.data.length, 24);
+    record.writeUInt16LE(name.length, 28);
+    record.writeUInt32LE(offset, 42);
+    central.push(record, name);
+
+    offset += header.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...local, directory, end]);
+}
+
+// ── Package ─────────────────────────────────────────────────────────────────
+
+function xhtml(title: string, body: string, language: string, head = ""): string {
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    "<!DOCTYPE html>",
+    `<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">`,
+    `<head><meta charset="utf-8" /><title>${escapeHtml(title)}</title>${head}</head>`,
+    `<body>\n${body}\n</body>`,
+    "</html>",
+  ].join("\n");
+}
+
+// Chapters grouped in the table of contents, in reading order
+function navList(chapters: EpubChapter[]): string {
+  const item = (chapter: EpubChapter, i: number) =>
+    `<li><a href="chapter-${i + 1}.xhtml">${escapeHtml(chapter.title)}</a></li>`;
+  const items: string[] = [];
+  for (let i = 0; i < chapters.length; ) {
+    const group = chapters[i].group;
+    if (!group) {
+      items.push(item(chapters[i], i));
+      i++;
+      continue;
+    }
+    const nested: string[] = [];
+    const first = i;
+    for (; i < chapters.length && chapters[i].group === group; i++) nested.push(item(chapters[i], i));
+    items.push(
+      `<li><a href="chapter-${first + 1}.xhtml">${escapeHtml(group)}</a><ol>${nested.join("")}</ol></li>`
+    );
+  }
+  return `<ol>${items.join("\n")}</ol>`;
+}
+
+const STYLESHEET = [
+  "body { font-family: serif; line-height: 1.5; }",
+  "h1, h2, h3, h4 { font-family: sans-serif; line-height: 1.25; }",
+  ".meta { color: #555; font-size: 0.9em; }",
+  "blockquote { margin-left: 1em; padding-left: 1em; border-left: 3px solid #ccc; }",
+  "pre { white-space: pre-wrap; }",
+].join("\n");
+
+export function buildEpub({ title, author, language = "en", modified, chapters }: EpubBook): Buffer {
+  // Stable per title and date, so re-exporting the same digest replaces the
+  // book in a reader's library instead of adding a copy
+  const hash = createHash("sha1").update(`${title}\n${modified.toISOString()}`).digest("hex");
+  const uuid = `${hash.slice(0, 8)}-${hash.slice(8, 12)}-5${hash.slice(13, 16)}-a${hash.slice(17, 20)}-${hash.slice(20, 32)}`;
+  const stylesheet = '<link rel="stylesheet" type="text/css" href="style.css" />';
+
+  const manifest = chapters
+    .map(
+      (_, i) =>
+        `<item id="chapter-${i + 1}" href="chapter-${i + 1}.xhtml" media-type="application/xhtml+xml" />`
+    )
+    .join("\n    ");
+  const spine = chapters.map((_, i) => `<itemref idref="chapter-${i + 1}" />`).join("\n    ");
+
+  const opf = `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:uuid:${uuid}</dc:identifier>
+    <dc:title>${escapeHtml(title)}</dc:title>
+    <dc:creator>${escapeHtml(author)}</dc:creator>
+    <dc:language>${language}</dc:language>
+    <meta property="dcterms:modified">${modified.toISOString().replace(/\.\d{3}Z$/, "Z")}</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />
+    <item id="style" href="style.css" media-type="text/css" />
+    ${manifest}
+  </manifest>
+  <spine>
+    ${spine}
+  </spine>
+</package>
+`;
+
+  const container = `<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
+  </rootfiles>
+</container>
+`;
+
+  const nav = xhtml(
+    title,
+    `<nav epub:type="toc" id="toc"><h1>${escapeHtml(title)}</h1>\n${navList(chapters)}\n</nav>`,
+    language
+  );
+
+  return zip(
+    [
+      { name: "mimetype", data: Buffer.from("application/epub+zip"), store: true },
+      { name: "META-INF/container.xml", data: Buffer.from(container) },
+      { name: "OEBPS/content.opf", data: Buffer.from(opf) },
+      { name: "OEBPS/nav.xhtml", data: Buffer.from(nav) },
+      { name: "OEBPS/style.css", data: Buffer.from(STYLESHEET) },
+      ...chapters.map((chapter, i) => ({
+        name: `OEBPS/chapter-${i + 1}.xhtml`,
+        data: Buffer.from(xhtml(chapter.title, chapter.body, language, stylesheet)),
+      })),
+    ],
+    modified
+  );
+}
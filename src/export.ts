@@ -0,0 +1,338 @@
+import { mkdir, rename, writeFile } from "fs/promises";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { formatDate } from "./dates.js";
+import { buildEpub, type EpubChapter } from "./epub.js";
+import { formatLink } from "./format.js";
+import { escapeHtml, markdownToHtml, type HtmlOptions } from "./markdown.js";
+import type { NewsletterSource } from "./sources.js";
+import type { PostContent } from "./types.js";
+
+// ─── Digest exports ──────────────────────────────────────────────────────────
+// Writes a digest to disk for archiving or sending on, in one of three forms:
+//
+//   html      one standalone page with inline styles, ready to paste into an email
+//   obsidian  one note per post with YAML front matter, plus an index note for
+//             the digest that links to them
+//   epub      an EPUB 3 book with one chapter per post
+//
+// A digest is a set of fetched posts, a digest already written from them
+// (markdown), or both, in which case the written digest comes first and the
+// posts follow as its sources. Re-exporting the same digest overwrites its
+// files; post notes are named by date and title, so they are shared between
+// digests that cover the same post.
+//
+//   NEWSLETTER_EXPORT_DIR    HTML and EPUB files (default ~/newsletter-exports)
+//   NEWSLETTER_OBSIDIAN_DIR  notes, e.g. a folder in a vault (default {export dir}/obsidian)
+
+export type ExportFormat = "html" | "obsidian" | "epub";
+
+export interface ExportDigest {
+  title: string;
+  // Digest written from the posts, in markdown
+  digest?: string;
+  sources: { source: NewsletterSource; posts: PostContent[] }[];
+  // Date shown as compiled (default now)
+  compiledAt?: Date;
+}
+
+export interface ExportedFile {
+  path: string;
+  bytes: number;
+}
+
+interface RenderedFile {
+  // Relative to the format's directory
+  path: string;
+  content: string | Buffer;
+}
+
+export function exportDir(): string {
+  return process.env.NEWSLETTER_EXPORT_DIR ?? join(homedir(), "newsletter-exports");
+}
+
+export function obsidianDir(): string {
+  return process.env.NEWSLETTER_OBSIDIAN_DIR ?? join(exportDir(), "obsidian");
+}
+
+// A file name from a title: "Weekly AI — Oct 19" → "weekly-ai-oct-19"
+export function slugify(text: string): string {
+  return (
+    text
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 80) || "digest"
+  );
+}
+
+function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function postCount(digest: ExportDigest): number {
+  return digest.sources.reduce((n, { posts }) => n + posts.length, 0);
+}
+
+// "Compiled February 21, 2026 · 9 posts from Superhuman AI and The Code"
+function compiledLine(digest: ExportDigest, compiledAt: Date): string {
+  const names = digest.sources.filter(({ posts }) => posts.length > 0).map(({ source }) => source.name);
+  const count = postCount(digest);
+  if (count === 0) return `Compiled ${formatDate(compiledAt)}`;
+  const from =
+    names.length > 1 ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}` : names[0];
+  return `Compiled ${formatDate(compiledAt)} · ${count} post${count === 1 ? "" : "s"} from ${from}`;
+}
+
+function postByline(post: PostContent): string {
+  return [post.date, post.author].filter(Boolean).join(" · ");
+}
+
+// ─── HTML ────────────────────────────────────────────────────────────────────
+// Email clients strip <style> blocks and most layout CSS, so every element
+// gets its own inline style and the page is a single centred column.
+
+const FONT = "-apple-system,BlinkMacSystemFont,Roboto,Helvetica,Arial,sans-serif";
+
+const EMAIL_STYLES: Record<string, string> = {
+  h1: "margin:0 0 8px;font-size:28px;line-height:1.25;color:#111827",
+  h2: "margin:40px 0 16px;padding-bottom:8px;border-bottom:2px solid #e5e7eb;font-size:22px;line-height:1.3;color:#111827",
+  h3: "margin:32px 0 8px;font-size:19px;line-height:1.35;color:#111827",
+  h4: "margin:24px 0 8px;font-size:17px;line-height:1.4;color:#111827",
+  h5: "margin:20px 0 8px;font-size:16px;color:#111827",
+  h6: "margin:20px 0 8px;font-size:15px;color:#374151",
+  p: "margin:0 0 16px",
+  ul: "margin:0 0 16px;padding-left:24px",
+  ol: "margin:0 0 16px;padding-left:24px",
+  li: "margin:0 0 6px",
+  a: "color:#2563eb;text-decoration:underline",
+  img: "display:block;max-width:100%;height:auto;margin:8px 0 16px;border:0",
+  blockquote: "margin:0 0 16px;padding:4px 16px;border-left:4px solid #e5e7eb;color:#4b5563",
+  pre: "margin:0 0 16px;padding:12px;background-color:#f3f4f6;border-radius:6px;white-space:pre-wrap",
+  code: "font-family:Menlo,Consolas,monospace;font-size:14px",
+  hr: "margin:32px 0;border:0;border-top:1px solid #e5e7eb",
+};
+
+const MUTED_STYLE = "margin:0 0 16px;font-size:14px;color:#6b7280";
+const SUBTITLE_STYLE = "margin:0 0 16px;font-style:italic;color:#4b5563";
+
+function htmlPost(post: PostContent): string {
+  const options: HtmlOptions = { styles: EMAIL_STYLES, headingOffset: 2 };
+  const title = `<a href="${escapeHtml(post.url)}" style="color:#111827;text-decoration:none">${escapeHtml(post.title)}</a>`;
+  return [
+    `<h3 style="${EMAIL_STYLES.h3}">${title}</h3>`,
+    `<p style="${MUTED_STYLE}">${escapeHtml(postByline(post))}</p>`,
+    post.subtitle ? `<p style="${SUBTITLE_STYLE}">${escapeHtml(post.subtitle)}</p>` : "",
+    post.featured_image && !post.content_markdown.includes(post.featured_image)
+      ? `<img src="${escapeHtml(post.featured_image)}" alt="" style="${EMAIL_STYLES.img}" />`
+      : "",
+    markdownToHtml(post.content_markdown, options),
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+export function renderHtml(digest: ExportDigest): string {
+  const compiledAt = digest.compiledAt ?? new Date();
+  const body = [
+    `<h1 style="${EMAIL_STYLES.h1}">${escapeHtml(digest.title)}</h1>`,
+    `<p style="${MUTED_STYLE}">${escapeHtml(compiledLine(digest, compiledAt))}</p>`,
+    digest.digest ? markdownToHtml(digest.digest, { styles: EMAIL_STYLES }) : "",
+    ...digest.sources
+      .filter(({ posts }) => posts.length > 0)
+      .flatMap(({ source, posts }) => [
+        `<h2 style="${EMAIL_STYLES.h2}">${escapeHtml(source.name)}</h2>`,
+        ...posts.map(htmlPost),
+      ]),
+  ].filter(Boolean);
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8" />',
+    '<meta name="viewport" content="width=device-width, initial-scale=1" />',
+    `<title>${escapeHtml(digest.title)}</title>`,
+    "</head>",
+    '<body style="margin:0;padding:0;background-color:#f3f4f6">',
+    `<div style="max-width:640px;margin:0 auto;padding:32px 24px;background-color:#ffffff;font-family:${FONT};font-size:16px;line-height:1.6;color:#1f2937">`,
+    ...body,
+    "</div>",
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+// ─── Obsidian ────────────────────────────────────────────────────────────────
+
+// Characters Obsidian (or Windows) won't accept in a note name or wikilink
+function noteName(text: string): string {
+  return text
+    .replace(/[\\/:*?"<>|#^[\]]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 120);
+}
+
+// JSON strings are valid YAML scalars, and quoting avoids surprises with
+// titles containing ": " or starting with a special character
+function frontMatter(fields: Record<string, string | string[] | undefined>): string {
+  const lines = Object.entries(fields).flatMap(([key, value]) => {
+    if (value === undefined || value === "") return [];
+    if (Array.isArray(value)) return [`${key}:`, ...value.map((item) => `  - ${JSON.stringify(item)}`)];
+    return [`${key}: ${JSON.stringify(value)}`];
+  });
+  return ["---", ...lines, "---"].join("\n");
+}
+
+function postNotePath(source: NewsletterSource, post: PostContent): string {
+  const day = post.published_at?.slice(0, 10);
+  return `${noteName(source.name)}/${noteName(day ? `${day} ${post.title}` : post.title)}`;
+}
+
+function postNote(source: NewsletterSource, post: PostContent): string {
+  const links =
+    post.external_links.length > 0 ? ["## Links", "", ...post.external_links.map(formatLink)].join("\n") : "";
+  return [
+    frontMatter({
+      title: post.title,
+      source: source.name,
+      date: post.published_at?.slice(0, 10),
+      author: post.author,
+      url: post.url,
+      subtitle: post.subtitle,
+      tags: ["newsletter", `newsletter/${source.id}`],
+    }),
+    "",
+    `# ${post.title}`,
+    post.subtitle ? `\n> ${post.subtitle}` : "",
+    post.featured_image && !post.content_markdown.includes(post.featured_image)
+      ? `\n![](${post.featured_image})`
+      : "",
+    "",
+    post.content_markdown,
+    links ? `\n${links}` : "",
+    "",
+  ]
+    .filter((line, i, lines) => line !== "" || lines[i - 1] !== "")
+    .join("\n");
+}
+
+export function renderObsidianNotes(digest: ExportDigest, name: string): RenderedFile[] {
+  const compiledAt = digest.compiledAt ?? new Date();
+  const notes: RenderedFile[] = [];
+  const index = [
+    frontMatter({
+      title: digest.title,
+      compiled: isoDay(compiledAt),
+      sources: digest.sources.map(({ source }) => source.id),
+      tags: ["newsletter/digest"],
+    }),
+    "",
+    `# ${digest.title}`,
+    "",
+    compiledLine(digest, compiledAt),
+  ];
+  if (digest.digest) index.push("", digest.digest.trim());
+
+  const sources = digest.sources.filter(({ posts }) => posts.length > 0);
+  if (sources.length > 0) index.push("", "## Posts");
+  for (const { source, posts } of sources) {
+    index.push("", `### ${source.name}`, "");
+    for (const post of posts) {
+      const path = postNotePath(source, post);
+      notes.push({ path: `${path}.md`, content: postNote(source, post) });
+      index.push(`- [[${path}|${noteName(post.title)}]]${post.date ? ` — ${post.date}` : ""}`);
+    }
+  }
+
+  return [{ path: `Digests/${name}.md`, content: index.join("\n") + "\n" }, ...notes];
+}
+
+// ─── EPUB ────────────────────────────────────────────────────────────────────
+
+function epubPost(post: PostContent): string {
+  // Readers can't load remote images, so they're left out
+  const options: HtmlOptions = { headingOffset: 1, images: false };
+  return [
+    `<h1>${escapeHtml(post.title)}</h1>`,
+    `<p class="meta">${escapeHtml(postByline(post))} · <a href="${escapeHtml(post.url)}">Read online</a></p>`,
+    post.subtitle ? `<p><em>${escapeHtml(post.subtitle)}</em></p>` : "",
+    markdownToHtml(post.content_markdown, options),
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+export function renderEpub(digest: ExportDigest): Buffer {
+  const compiledAt = digest.compiledAt ?? new Date();
+  const chapters: EpubChapter[] = [];
+  if (digest.digest) {
+    chapters.push({
+      title: "Digest",
+      body: [
+        `<h1>${escapeHtml(digest.title)}</h1>`,
+        `<p class="meta">${escapeHtml(compiledLine(digest, compiledAt))}</p>`,
+        markdownToHtml(digest.digest, { images: false }),
+      ].join("\n"),
+    });
+  }
+  for (const { source, posts } of digest.sources) {
+    for (const post of posts) {
+      chapters.push({ title: post.title, body: epubPost(post), group: source.name });
+    }
+  }
+
+  return buildEpub({
+    title: digest.title,
+    author: digest.sources.map(({ source }) => source.name).join(", ") || "Newsletter digest",
+    modified: compiledAt,
+    chapters,
+  });
+}
+
+// ─── Writing ─────────────────────────────────────────────────────────────────
+
+// Writes via a temp file + rename so a reader (a sync client, a vault) never
+// sees half a file
+async function writeExport(path: string, content: string | Buffer): Promise<ExportedFile> {
+  await mkdir(dirname(path), { recursive: true });
+  const tmp = `${path}.${process.pid}.tmp`;
+  await writeFile(tmp, content);
+  await rename(tmp, path);
+  return { path, bytes: Buffer.byteLength(content) };
+}
+
+// Renders the digest and writes it under the format's directory. `name`
+// (default: the title) names the HTML/EPUB file or the index note; it's
+// slugified, so it can't point outside the directory.
+export async function exportDigest(
+  format: ExportFormat,
+  digest: ExportDigest,
+  name?: string
+): Promise<{ directory: string; files: ExportedFile[] }> {
+  const base = slugify(name ?? digest.title);
+  let directory = exportDir();
+  let files: RenderedFile[];
+  switch (format) {
+    case "html":
+      files = [{ path: `${base}.html`, content: renderHtml(digest) }];
+      break;
+    case "epub":
+      files = [{ path: `${base}.epub`, content: renderEpub(digest) }];
+      break;
+    case "obsidian":
+      directory = obsidianDir();
+      files = renderObsidianNotes(digest, base);
+      break;
+  }
+
+  const written: ExportedFile[] = [];
+  for (const file of files) {
+    written.push(await writeExport(join(directory, file.path), file.content));
+  }
+  return { directory, files: written };
+}
@@ -0,0 +1,315 @@
+// ─── HTTP fetching ───────────────────────────────────────────────────────────
+// All page fetches go through fetchHtml, which is shared by every MCP session
+// in the process (the HTTP server creates one McpServer per session, but they
+// all import this module). That gives us process-wide:
+//
+//   - a token-bucket rate limit per host, so the target sites see polite
+//     traffic however many Claude sessions are fetching at once;
+//   - de-duplication of in-flight requests for the same URL;
+//   - per-request timeouts, and retries with exponential backoff (honouring
+//     Retry-After) on timeouts, network errors, 429 and 5xx;
+//   - a circuit breaker per host that fails fast while a site is down;
+//   - a bounded worker pool for multi-post fetches (mapConcurrent).
+//
+//   NEWSLETTER_FETCH_CONCURRENCY    parallel post fetches per tool call (default 3)
+//   NEWSLETTER_RATE_PER_SECOND      sustained requests per second per host (default ~3.3)
+//   NEWSLETTER_RATE_BURST           requests allowed back-to-back per host (default 2)
+//   NEWSLETTER_FETCH_TIMEOUT_MS     per-attempt timeout (default 15000)
+//   NEWSLETTER_FETCH_RETRIES        retries after the first attempt (default 2; 0 for none)
+//   NEWSLETTER_RETRY_BASE_MS        first backoff delay, doubled per retry (default 500)
+//   NEWSLETTER_BREAKER_THRESHOLD    consecutive failures that open a host's circuit (default 5)
+//   NEWSLETTER_BREAKER_COOLDOWN_MS  how long an open circuit fails fast (default 60000)
+
+import { log } from "./logger.js";
+import { fetchDuration, fetchRequests } from "./metrics.js";
+
+// Default spacing between requests to one host
+export const FETCH_DELAY_MS = 300;
+
+const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_BURST = 2;
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_BASE_MS = 500;
+const MAX_BACKOFF_MS = 10_000;
+// Longest Retry-After we are willing to honour inside a tool call
+const MAX_RETRY_AFTER_MS = 30_000;
+const DEFAULT_BREAKER_THRESHOLD = 5;
+const DEFAULT_COOLDOWN_MS = 60_000;
+
+// Sent with every request; some sites refuse clients that don't look like a browser
+export const REQUEST_HEADERS = {
+  "User-Agent":
+    "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+  Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+};
+
+interface Bucket {
+  // May go negative: each caller reserves a token and waits for it to refill
+  tokens: number;
+  updatedAt: number;
+}
+
+const buckets = new Map<string, Bucket>();
+const inFlight = new Map<string, Promise<string>>();
+
+// Unset, blank or invalid values fall back to the default
+function envNumber(name: string, fallback: number): number {
+  if (!process.env[name]?.trim()) return fallback;
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Like envNumber, but for whole numbers where 0 turns the feature off
+// (no retries, no backoff delay, no breaker cooldown)
+function envInt(name: string, fallback: number): number {
+  if (!process.env[name]?.trim()) return fallback;
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+export function fetchConcurrency(): number {
+  return Math.floor(envNumber("NEWSLETTER_FETCH_CONCURRENCY", DEFAULT_CONCURRENCY));
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// ─── Per-host rate limiter ───────────────────────────────────────────────────
+
+async function acquire(host: string): Promise<void> {
+  const rate = envNumber("NEWSLETTER_RATE_PER_SECOND", 1000 / FETCH_DELAY_MS);
+  const burst = envNumber("NEWSLETTER_RATE_BURST", DEFAULT_BURST);
+  const now = Date.now();
+
+  let bucket = buckets.get(host);
+  if (!bucket) {
+    bucket = { tokens: burst, updatedAt: now };
+    buckets.set(host, bucket);
+  }
+
+  bucket.tokens = Math.min(
+    burst,
+    bucket.tokens + ((now - bucket.updatedAt) / 1000) * rate
+  );
+  bucket.updatedAt = now;
+  bucket.tokens -= 1;
+
+  if (bucket.tokens < 0) {
+    await sleep((-bucket.tokens / rate) * 1000);
+  }
+}
+
+// ─── Circuit breaker ─────────────────────────────────────────────────────────
+// After `threshold` consecutive host-level failures (timeouts, network errors,
+// 429/5xx after all retries) the host's circuit opens and requests fail fast
+// for the cooldown. The first request after the cooldown is let through as a
+// trial: success closes the circuit, failure re-opens it.
+
+interface Breaker {
+  failures: number;
+  openUntil: number;
+}
+
+const breakers = new Map<string, Breaker>();
+
+function checkBreaker(host: string, url: string): void {
+  const breaker = breakers.get(host);
+  if (!breaker || breaker.openUntil === 0) return;
+
+  const now = Date.now();
+  if (now < breaker.openUntil) {
+    fetchRequests.inc({ host, status: "circuit_open" });
+    throw new FetchError(
+      `${host} is unavailable (circuit open for another ${Math.ceil(
+        (breaker.openUntil - now) / 1000
+      )}s after ${breaker.failures} consecutive failures) fetching ${url}`,
+      url,
+      0
+    );
+  }
+  // Half-open: let this request through as the trial, and hold off the rest
+  breaker.openUntil = now + envInt("NEWSLETTER_BREAKER_COOLDOWN_MS", DEFAULT_COOLDOWN_MS);
+}
+
+function recordSuccess(host: string): void {
+  breakers.delete(host);
+}
+
+function recordFailure(host: string): void {
+  const breaker = breakers.get(host) ?? { failures: 0, openUntil: 0 };
+  breaker.failures++;
+  if (breaker.failures >= envNumber("NEWSLETTER_BREAKER_THRESHOLD", DEFAULT_BREAKER_THRESHOLD)) {
+    breaker.openUntil =
+      Date.now() + envInt("NEWSLETTER_BREAKER_COOLDOWN_MS", DEFAULT_COOLDOWN_MS);
+    log.warn("circuit opened", { host, failures: breaker.failures });
+  }
+  breakers.set(host, breaker);
+}
+
+// Hosts whose circuit is currently open, for health reporting
+export function openCircuits(): { host: string; failures: number; retry_at: string }[] {
+  const now = Date.now();
+  return [...breakers.entries()]
+    .filter(([, breaker]) => breaker.openUntil > now)
+    .map(([host, breaker]) => ({
+      host,
+      failures: breaker.failures,
+      retry_at: new Date(breaker.openUntil).toISOString(),
+    }));
+}
+
+// ─── Fetch ───────────────────────────────────────────────────────────────────
+
+// Thrown by fetchHtml once all attempts are used up (or the circuit is open).
+export class FetchError extends Error {
+  constructor(
+    message: string,
+    readonly url: string,
+    readonly attempts: number,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = "FetchError";
+  }
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+function retryAfterMs(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function backoffMs(attempt: number): number {
+  const base = envInt("NEWSLETTER_RETRY_BASE_MS", DEFAULT_RETRY_BASE_MS);
+  // Exponential with ±25% jitter so parallel retries don't line up
+  const delay = base * 2 ** (attempt - 1);
+  return Math.min(MAX_BACKOFF_MS, delay * (0.75 + Math.random() * 0.5));
+}
+
+async function fetchOnce(
+  url: string
+): Promise<
+  { ok: true; status: number; body: string } | { ok: false; status: number; retryAfter?: number }
+> {
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(),
+    envNumber("NEWSLETTER_FETCH_TIMEOUT_MS", DEFAULT_TIMEOUT_MS)
+  );
+
+  try {
+    const res = await fetch(url, {
+      signal: controller.signal,
+      headers: REQUEST_HEADERS,
+    });
+    if (!res.ok) {
+      // Release the unread body so the connection can be reused
+      await res.body?.cancel();
+      return {
+        ok: false,
+        status: res.status,
+        retryAfter: retryAfterMs(res.headers.get("retry-after")),
+      };
+    }
+    return { ok: true, status: res.status, body: await res.text() };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function fetchWithRetry(url: string): Promise<string> {
+  const host = new URL(url).hostname;
+  const maxAttempts = 1 + envInt("NEWSLETTER_FETCH_RETRIES", DEFAULT_RETRIES);
+
+  for (let attempt = 1; ; attempt++) {
+    // Retries of a request already admitted don't re-check the circuit
+    if (attempt === 1) checkBreaker(host, url);
+    await acquire(host);
+
+    let failure: string;
+    let status: number | undefined;
+    let wait: number | undefined;
+
+    const stopTimer = fetchDuration.startTimer({ host });
+    try {
+      const result = await fetchOnce(url);
+      stopTimer();
+      fetchRequests.inc({ host, status: String(result.status) });
+      if (result.ok) {
+        recordSuccess(host);
+        return result.body;
+      }
+      status = result.status;
+      failure = `HTTP ${status} fetching ${url}`;
+      if (!isRetryableStatus(status)) {
+        // The host answered; only this URL is bad
+        recordSuccess(host);
+        throw new FetchError(failure, url, attempt, status);
+      }
+      wait = result.retryAfter;
+    } catch (err) {
+      if (err instanceof FetchError) throw err;
+      stopTimer();
+      const timedOut = err instanceof Error && err.name === "AbortError";
+      fetchRequests.inc({ host, status: timedOut ? "timeout" : "network_error" });
+      failure = timedOut
+        ? `Timed out fetching ${url}`
+        : `${err instanceof Error ? err.message : String(err)} fetching ${url}`;
+    }
+
+    log.debug("fetch attempt failed", { url, attempt, status, reason: failure });
+    if (attempt >= maxAttempts) {
+      recordFailure(host);
+      throw new FetchError(
+        `${failure} (after ${attempt} attempt${attempt === 1 ? "" : "s"})`,
+        url,
+        attempt,
+        status
+      );
+    }
+    await sleep(Math.min(wait ?? backoffMs(attempt), MAX_RETRY_AFTER_MS));
+  }
+}
+
+export function fetchHtml(url: string): Promise<string> {
+  const pending = inFlight.get(url);
+  if (pending) return pending;
+
+  const request = fetchWithRetry(url).finally(() => inFlight.delete(url));
+  inFlight.set(url, request);
+  return request;
+}
+
+// ─── Worker pool ─────────────────────────────────────────────────────────────
+
+// Maps with at most `concurrency` calls of `fn` running at once, keeping the
+// results in input order.
+export async function mapConcurrent<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, worker)
+  );
+  return results;
+}
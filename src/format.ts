@@ -0,0 +1,429 @@
+import {
+  formatTrimReport,
+  shapePosts,
+  trimToBudget,
+  type ShapeOptions,
+  type TrimReport,
+} from "./budget.js";
+import { formatCacheStats, type CacheStats } from "./cache.js";
+import type { StoryCluster } from "./cluster.js";
+import type { HealthStatus, SourceHealth } from "./health.js";
+import type { CitedLink } from "./links.js";
+import { formatDate, hasWindow, type DateWindow } from "./dates.js";
+import type { SearchResult } from "./search.js";
+import type { TrendingOutput } from "./schemas.js";
+import type { NewsletterSource } from "./sources.js";
+import type { TagFilter } from "./tags.js";
+import type { PostContent, PostLink, PostListing, PostTags } from "./types.js";
+
+// ─── Format for Claude ────────────────────────────────────────────────────────
+
+export interface DigestOptions {
+  window?: DateWindow;
+  cache?: CacheStats;
+  // Replaces the "N Most Recent Posts" part of the title
+  heading?: string;
+  // What prepareDigest left out, reported in the header
+  trimmed?: TrimReport;
+  // Date shown as "Compiled:" (default now)
+  compiledAt?: Date;
+  // Most-cited destinations, listed after the posts
+  topLinks?: CitedLink[];
+  // Topics/entities filter the posts were narrowed by
+  filter?: TagFilter;
+}
+
+// A link list entry; enriched links also show where they lead
+export function formatLink(link: PostLink): string {
+  const target = [link.title, link.domain].filter(Boolean).join(" · ");
+  return `- [${link.text}](${link.url})${target ? ` — ${target}` : ""}`;
+}
+
+// e.g. "topics funding or policy; entities OpenAI"
+export function formatFilter({ topics = [], entities = [] }: TagFilter): string {
+  return [
+    topics.length > 0 ? `topics ${topics.join(" or ")}` : "",
+    entities.length > 0 ? `entities ${entities.join(" or ")}` : "",
+  ]
+    .filter(Boolean)
+    .join("; ");
+}
+
+// "**Topics:** … | **Entities:** …", or "" when nothing was tagged
+function formatTags(tags?: PostTags): string {
+  if (!tags) return "";
+  return [
+    tags.topics.length > 0 ? `**Topics:** ${tags.topics.join(", ")}` : "",
+    tags.entities.length > 0 ? `**Entities:** ${tags.entities.map((e) => e.name).join(", ")}` : "",
+  ]
+    .filter(Boolean)
+    .join("  |  ");
+}
+
+function formatTopLinks(links: CitedLink[]): string {
+  return [
+    "## Most-cited links",
+    "",
+    ...links.map((link) => {
+      const label = link.title ?? link.texts[0] ?? link.url;
+      return (
+        `- [${label}](${link.url}) — ${link.domain}, cited by ${link.citations} posts` +
+        (link.description ? `\n  ${link.description}` : "")
+      );
+    }),
+  ].join("\n");
+}
+
+// Header lines naming posts that could not be fetched, and after how many
+// attempts (0 means the host's circuit was open and no request was made)
+function formatFailures(posts: PostContent[]): string[] {
+  const failed = posts.filter((post) => post.fetch_error);
+  if (failed.length === 0) return [];
+  return [
+    `Failed: ${failed.length} of ${posts.length} posts could not be fetched:`,
+    ...failed.map(
+      (post) =>
+        `- ${post.title} <${post.url}> — ${post.fetch_error!.attempts} attempt${
+          post.fetch_error!.attempts === 1 ? "" : "s"
+        }: ${post.fetch_error!.message}`
+    ),
+  ];
+}
+
+export function formatDigest(
+  source: NewsletterSource,
+  posts: PostContent[],
+  {
+    window = {},
+    cache,
+    heading,
+    trimmed,
+    compiledAt = new Date(),
+    topLinks,
+    filter,
+  }: DigestOptions = {}
+): string {
+  const divider = "\n\n" + "─".repeat(80) + "\n\n";
+
+  const fetchedAt = compiledAt.toLocaleDateString("en-US", {
+    weekday: "long",
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+  const range = heading ?? (hasWindow(window)
+    ? `${posts.length} Posts from ${
+        window.since ? formatDate(window.since) : "the beginning"
+      } to ${window.until ? formatDate(window.until) : "today"}`
+    : `${posts.length} Most Recent Posts`);
+
+  const header = [
+    `# ${source.name} Newsletter — ${range}`,
+    `Compiled: ${fetchedAt}`,
+    ...(cache ? [`Cache: ${formatCacheStats(cache)}`] : []),
+    ...(trimmed ? [`Output: ${formatTrimReport(trimmed)}`] : []),
+    ...(filter ? [`Filter: ${formatFilter(filter)} — only matching stories are included`] : []),
+    ...formatFailures(posts),
+    "",
+    "Full content of each post is included below. Use this to produce a weekly digest",
+    "with combined top stories, must-read links, and a reference back to each source URL.",
+  ].join("\n");
+
+  const sections = posts.map((post, i) => {
+    // One-line outline so stories can be referred to individually
+    const outline = post.sections
+      .filter((section) => section.heading)
+      .map((section) => `[${section.type}] ${section.heading}`)
+      .join(" · ");
+
+    const meta = [
+      `## [Post ${i + 1}/${posts.length}] ${post.title}`,
+      `**Date:** ${post.date}  |  **Author:** ${post.author}`,
+      `**Source:** <${post.url}>`,
+      post.subtitle ? `**Summary:** ${post.subtitle}` : "",
+      outline ? `**Sections:** ${outline}` : "",
+      formatTags(post.tags),
+      post.featured_image ? `\n![Featured Image](${post.featured_image})\n` : "",
+    ]
+      .filter(Boolean)
+      .join("\n");
+
+    const links =
+      post.external_links.length > 0
+        ? "\n\n**Links referenced in this post:**\n" +
+          post.external_links.map(formatLink).join("\n")
+        : "";
+
+    return `${meta}\n\n${post.content_markdown}${links}`;
+  });
+  if (topLinks?.length) sections.push(formatTopLinks(topLinks));
+
+  return header + divider + sections.join(divider);
+}
+
+// Room left for the "Output:" header line, which is measured before it's final
+const REPORT_RESERVE = 160;
+
+// Applies the detail level, image stripping and character budget before
+// formatDigest. The budget covers the whole digest: header and per-post
+// metadata are measured first, and post bodies share what's left. If even the
+// metadata doesn't fit, link lists are dropped too. When the result is returned
+// as JSON, `json` renders it and the budget applies to that text instead.
+export function prepareDigest(
+  source: NewsletterSource,
+  posts: PostContent[],
+  { maxChars, ...shape }: ShapeOptions & { maxChars?: number },
+  digestOptions: DigestOptions = {},
+  json?: (posts: PostContent[], report: TrimReport) => string
+): { posts: PostContent[]; report: TrimReport } {
+  let { posts: shaped, report } = shapePosts(posts, shape);
+  if (maxChars === undefined) return { posts: shaped, report };
+  report.max_chars = maxChars;
+
+  const render = (candidates: PostContent[]) =>
+    json ? json(candidates, report) : formatDigest(source, candidates, digestOptions);
+  const overhead = (candidates: PostContent[]) =>
+    render(
+      candidates.map((post) => ({
+        ...post,
+        content_markdown: "",
+        sections: post.sections.map((section) => ({ ...section, content_markdown: "" })),
+      }))
+    ).length + REPORT_RESERVE;
+
+  let available = maxChars - overhead(shaped);
+  const hasLinks = (post: PostContent) =>
+    post.external_links.length > 0 || post.sections.some((section) => section.links.length > 0);
+  if (available < 0 && shaped.some(hasLinks)) {
+    shaped = shaped.map((post) => ({
+      ...post,
+      external_links: [],
+      sections: post.sections.map((section) => ({ ...section, links: [] })),
+    }));
+    report.links_dropped = true;
+    available = maxChars - overhead(shaped);
+  }
+
+  // Escaping makes quotes, backslashes and newlines longer in JSON
+  const measure = json ? (text: string) => JSON.stringify(text).length - 2 : undefined;
+  return { posts: trimToBudget(shaped, available, report, measure), report };
+}
+
+export function formatClusters(
+  sources: { source: NewsletterSource; postCount: number }[],
+  clusters: StoryCluster[],
+  window: DateWindow,
+  topLinks: CitedLink[] = [],
+  filter?: TagFilter
+): string {
+  const divider = "\n\n" + "─".repeat(80) + "\n\n";
+  const storyCount = clusters.reduce((n, c) => n + c.stories.length, 0);
+  const merged = clusters.filter((c) => c.stories.length > 1).length;
+  const names = new Map(sources.map(({ source }) => [source.id, source.name]));
+
+  const header = [
+    `# Weekly Digest Sources — ${clusters.length} Stories`,
+    `Window: ${window.since ? formatDate(window.since) : "the beginning"} to ${
+      window.until ? formatDate(window.until) : "today"
+    }`,
+    `Sources: ${sources
+      .map(({ source, postCount }) => `${source.name} (${postCount} posts)`)
+      .join(", ")}`,
+    `${storyCount} stories grouped into ${clusters.length} clusters; ${merged} clusters were covered more than once.`,
+    ...(filter ? [`Filter: ${formatFilter(filter)} — only matching stories are included`] : []),
+    "",
+    "Each cluster is one event, with every issue that covered it. Use this to produce a weekly digest",
+    "with combined top stories, must-read links, and a reference back to each source URL.",
+  ].join("\n");
+
+  const items = clusters.map((cluster, i) => {
+    const mentions = cluster.stories
+      .map(
+        (story) =>
+          `- ${names.get(story.source) ?? story.source} · ${story.post.title} (${story.post.date}) — <${story.post.url}>`
+      )
+      .join("\n");
+    const links =
+      cluster.links.length > 0
+        ? "\n\n**Links:**\n" +
+          cluster.links.map(formatLink).join("\n")
+        : "";
+
+    const tags = formatTags(cluster.tags);
+    return [
+      `## ${i + 1}. ${cluster.headline}`,
+      `**Covered by:** ${cluster.sources.map((id) => names.get(id) ?? id).join(", ")} — ${cluster.stories.length} mention${cluster.stories.length === 1 ? "" : "s"}`,
+      ...(tags ? [tags] : []),
+      mentions,
+      "",
+      cluster.content_markdown,
+    ].join("\n") + links;
+  });
+
+  if (topLinks.length > 0) items.push(formatTopLinks(topLinks));
+
+  return header + divider + items.join(divider);
+}
+
+export function formatSearchResults(
+  query: string,
+  results: SearchResult[],
+  indexedPosts: number
+): string {
+  if (results.length === 0) {
+    return `No posts matching "${query}" among ${indexedPosts} indexed posts.`;
+  }
+
+  const header = `# Search results for "${query}" — ${results.length} of ${indexedPosts} indexed posts`;
+  const items = results.map(({ post, source, score, snippet }, i) =>
+    [
+      `## ${i + 1}. ${post.title}`,
+      `**Date:** ${post.date}  |  **Source:** ${source}  |  **Score:** ${score.toFixed(2)}`,
+      `**URL:** <${post.url}>`,
+      "",
+      `> ${snippet}`,
+    ].join("\n")
+  );
+
+  return [header, ...items].join("\n\n");
+}
+
+// Archive resource: one line per post, pointing at its post resource
+export function formatArchive(
+  source: NewsletterSource,
+  listings: (PostListing & { resource: string })[]
+): string {
+  const header = [
+    `# ${source.name} Archive — ${listings.length} Most Recent Posts`,
+    `Source: <${source.baseUrl}>`,
+    "",
+    "Read a post in full through its resource URI.",
+  ].join("\n");
+  if (listings.length === 0) return `${header}\n\nNo posts found.`;
+
+  const items = listings.map(
+    (listing) =>
+      `- **${listing.title}**${listing.date ? ` (${listing.date})` : ""}\n` +
+      `  ${listing.resource} — <${listing.url}>`
+  );
+  return [header, items.join("\n")].join("\n\n");
+}
+
+export function formatNewPosts(
+  cursor: string,
+  results: {
+    source: NewsletterSource;
+    previous?: string;
+    posts: PostContent[];
+    remaining: number;
+    acknowledged?: string;
+  }[],
+  acknowledge: boolean
+): string {
+  const total = results.reduce((n, r) => n + r.posts.length, 0);
+  const header = [
+    `# New Posts for "${cursor}" — ${total} post${total === 1 ? "" : "s"}`,
+    ...results.map(
+      ({ source, previous, posts, remaining }) =>
+        `- ${source.name}: ${posts.length > 0 ? `${posts.length} new` : "nothing new"}${
+          previous ? ` since ${previous}` : " (first run)"
+        }${remaining > 0 ? `; ${remaining} newer unread left for the next call` : ""}`
+    ),
+    "",
+    acknowledge
+      ? `Marked as read: ${
+          results
+            .filter((r) => r.acknowledged)
+            .map((r) => `${r.source.name} up to ${r.acknowledged}`)
+            .join(", ") || "nothing"
+        }.`
+      : `Not marked as read yet — call mark_posts_read with cursor "${cursor}" once these are covered.`,
+  ].join("\n");
+
+  const digests = results
+    .filter((r) => r.posts.length > 0)
+    .map(({ source, posts }) =>
+      formatDigest(source, posts, {
+        heading: `${posts.length} New Post${posts.length === 1 ? "" : "s"}`,
+      })
+    );
+
+  return [header, ...digests].join("\n\n" + "═".repeat(80) + "\n\n");
+}
+
+export function formatSourceHealth(results: SourceHealth[], status: HealthStatus): string {
+  const header = `# Source Extraction Check — ${status}`;
+  const items = results.map((result) => {
+    const lines = [
+      `## ${result.source_name} (${result.source}) — ${result.status}`,
+      `Checked: ${result.checked_at}  |  Listings: ${result.listings}${
+        result.feed_entries !== undefined ? `  |  Feed entries: ${result.feed_entries}` : ""
+      }`,
+    ];
+    if (result.sample_post) {
+      const { title, url, body_chars, links } = result.sample_post;
+      lines.push(`Sample: ${title} <${url}> — ${body_chars} chars, ${links} links`);
+    }
+    lines.push(
+      ...(result.reasons.length > 0
+        ? result.reasons.map((reason) => `- [${reason.status}] ${reason.check}: ${reason.message}`)
+        : ["- All checks passed"])
+    );
+    return lines.join("\n");
+  });
+  return [header, ...items].join("\n\n");
+}
+
+export function formatTrendingTopics(
+  sources: NewsletterSource[],
+  { weeks, topics, entities }: TrendingOutput
+): string {
+  const posts = weeks.reduce((n, week) => n + week.posts, 0);
+  const stories = weeks.reduce((n, week) => n + week.stories, 0);
+  const first = new Date(weeks[0].since);
+  const last = new Date(weeks[weeks.length - 1].until);
+  const header = [
+    `# Trending Topics — ${weeks.length} weeks from ${formatDate(first)} to ${formatDate(last)}`,
+    `Sources: ${sources.map((source) => source.name).join(", ")} — ${posts} posts, ${stories} stories`,
+    "",
+    "Each column counts the stories tagged in one week, oldest first; the change compares the",
+    "latest week with the week before.",
+  ].join("\n");
+  if (stories === 0) return `${header}\n\nNo posts found in these weeks.`;
+
+  const columns = weeks.map((week) =>
+    new Date(week.since).toLocaleDateString("en-US", { month: "short", day: "numeric" })
+  );
+  const change = (tag: { change: number; trend: string }) =>
+    `${tag.change > 0 ? "+" : ""}${tag.change} (${tag.trend})`;
+  const table = (label: string, rows: string[][]) =>
+    [
+      `| ${label} | ${columns.join(" | ")} | Change |`,
+      `|${" --- |".repeat(columns.length + 2)}`,
+      ...rows.map((row) => `| ${row.join(" | ")} |`),
+    ].join("\n");
+
+  const sections = [
+    "## Topics\n\n" +
+      table(
+        "Topic",
+        topics.map((topic) => [topic.id, ...topic.counts.map(String), change(topic)])
+      ),
+  ];
+  if (entities.length > 0) {
+    sections.push(
+      "## Companies, products and models\n\n" +
+        table(
+          "Entity",
+          entities.map((entity) => [
+            `${entity.name} (${entity.type})`,
+            ...entity.counts.map(String),
+            change(entity),
+          ])
+        )
+    );
+  }
+
+  return [header, ...sections].join("\n\n");
+}
@@ -0,0 +1,262 @@
+import { parse } from "node-html-parser";
+import { fetchFeed } from "./feed.js";
+import { fetchHtml } from "./fetcher.js";
+import { log } from "./logger.js";
+import { parsePost, scrapeListings } from "./scraper.js";
+import type { NewsletterSource } from "./sources.js";
+import type { PostListing } from "./types.js";
+
+// ─── Extraction health checks ────────────────────────────────────────────────
+// When Beehiiv changes its markup the scrapers keep "succeeding": posts come
+// back with empty bodies, titles derived from the slug and blank dates. A
+// check scrapes the first listing page and the newest post of a source,
+// bypassing the cache, and validates what came out. Each problem is a reason
+// with a severity; the worst one sets the source's status.
+//
+// Results are kept for CHECK_TTL_MS so that a monitor polling
+// /health/sources doesn't turn into traffic to the newsletter sites. Forced
+// re-checks (from /health/sources?refresh=1 or the check_sources tool) scrape
+// every source, so at most one runs per REFRESH_INTERVAL_MS; other refresh
+// requests get the recent results.
+
+export type HealthStatus = "pass" | "degraded" | "fail";
+
+export interface HealthReason {
+  status: Exclude<HealthStatus, "pass">;
+  check: string;
+  message: string;
+}
+
+export interface SourceHealth {
+  source: string;
+  source_name: string;
+  status: HealthStatus;
+  checked_at: string;
+  listings: number;
+  feed_entries?: number;
+  sample_post?: { title: string; url: string; body_chars: number; links: number };
+  reasons: HealthReason[];
+}
+
+const CHECK_TTL_MS = 10 * 60 * 1000;
+const REFRESH_INTERVAL_MS = 60_000;
+let lastRefresh = 0;
+
+// Below this a post body is probably a stub or a paywall teaser
+const MIN_BODY_CHARS = 500;
+// More links than this means navigation or footer noise wasn't stripped
+const MAX_LINKS = 150;
+
+const SEVERITY: Record<HealthStatus, number> = { pass: 0, degraded: 1, fail: 2 };
+
+function slugTitle(listing: Pick<PostListing, "slug">): string {
+  return listing.slug.replace(/-/g, " ");
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// True when the page has a JSON-LD block that parses and names the headline or
+// publication date — the metadata parsePost relies on
+function hasJsonLd(html: string): boolean {
+  return parse(html)
+    .querySelectorAll('script[type="application/ld+json"]')
+    .some((script) => {
+      try {
+        const data = JSON.parse(script.text);
+        return Boolean(data.headline || data.datePublished);
+      } catch {
+        return false;
+      }
+    });
+}
+
+function worstStatus(statuses: HealthStatus[]): HealthStatus {
+  return statuses.reduce<HealthStatus>(
+    (worst, status) => (SEVERITY[status] > SEVERITY[worst] ? status : worst),
+    "pass"
+  );
+}
+
+// Problems with the posts extracted from a listing page
+export function checkListings(listings: PostListing[]): HealthReason[] {
+  const reasons: HealthReason[] = [];
+  if (listings.length === 0) {
+    reasons.push({
+      status: "fail",
+      check: "listings",
+      message: "No posts found on the first listing page",
+    });
+    return reasons;
+  }
+  const slugTitles = listings.filter((l) => l.title === slugTitle(l)).length;
+  if (slugTitles > 0) {
+    reasons.push({
+      status: slugTitles === listings.length ? "fail" : "degraded",
+      check: "listing_titles",
+      message: `${slugTitles} of ${listings.length} listing titles fell back to the slug`,
+    });
+  }
+  const undated = listings.filter((l) => !l.published_at).length;
+  if (undated > 0) {
+    reasons.push({
+      status: "degraded",
+      check: "listing_dates",
+      message: `${undated} of ${listings.length} listings have no parseable date`,
+    });
+  }
+  return reasons;
+}
+
+// Problems with the post extracted from a post page, plus a summary of it
+export function checkPost(
+  source: NewsletterSource,
+  listing: PostListing,
+  html: string
+): { reasons: HealthReason[]; sample: NonNullable<SourceHealth["sample_post"]> } {
+  const reasons: HealthReason[] = [];
+  const post = parsePost(source, listing, html);
+  const body = post.content_markdown.trim();
+
+  if (!body) {
+    reasons.push({
+      status: "fail",
+      check: "post_body",
+      message: `Empty body extracted from ${post.url}`,
+    });
+  } else if (body.length < MIN_BODY_CHARS) {
+    reasons.push({
+      status: "degraded",
+      check: "post_body",
+      message: `Body of ${post.url} is only ${body.length} characters`,
+    });
+  }
+  if (post.title === slugTitle(post)) {
+    reasons.push({
+      status: "degraded",
+      check: "post_title",
+      message: `Title of ${post.url} fell back to the slug`,
+    });
+  }
+  if (!post.published_at) {
+    reasons.push({
+      status: "degraded",
+      check: "post_date",
+      message: `No publication date found for ${post.url}`,
+    });
+  }
+  const links = post.external_links.length;
+  if (links === 0 || links > MAX_LINKS) {
+    reasons.push({
+      status: "degraded",
+      check: "post_links",
+      message: `${links} external links extracted from ${post.url} (expected 1–${MAX_LINKS})`,
+    });
+  }
+  if (!hasJsonLd(html)) {
+    reasons.push({
+      status: "degraded",
+      check: "json_ld",
+      message: `No usable JSON-LD metadata on ${post.url}`,
+    });
+  }
+
+  return {
+    reasons,
+    sample: { title: post.title, url: post.url, body_chars: body.length, links },
+  };
+}
+
+async function runCheck(source: NewsletterSource): Promise<SourceHealth> {
+  const reasons: HealthReason[] = [];
+  const health: SourceHealth = {
+    source: source.id,
+    source_name: source.name,
+    status: "pass",
+    checked_at: new Date().toISOString(),
+    listings: 0,
+    reasons,
+  };
+
+  let listings: PostListing[] = [];
+  try {
+    listings = await scrapeListings(source, 1);
+    health.listings = listings.length;
+    reasons.push(...checkListings(listings));
+  } catch (err) {
+    reasons.push({
+      status: "fail",
+      check: "listings",
+      message: `Listing page: ${errorMessage(err)}`,
+    });
+  }
+
+  // The feed is listed first, so losing it shifts the load onto the archive
+  // scraper; the archive keeps working, hence only degraded
+  if (source.feed) {
+    const { entries } = await fetchFeed(source);
+    health.feed_entries = entries.length;
+    if (entries.length === 0) {
+      reasons.push({ status: "degraded", check: "feed", message: "Feed returned no entries" });
+    }
+  }
+
+  const sample = listings[0];
+  if (sample) {
+    try {
+      const checked = checkPost(source, sample, await fetchHtml(sample.url));
+      health.sample_post = checked.sample;
+      reasons.push(...checked.reasons);
+    } catch (err) {
+      reasons.push({
+        status: "fail",
+        check: "post",
+        message: `${sample.url}: ${errorMessage(err)}`,
+      });
+    }
+  }
+
+  health.status = worstStatus(reasons.map((reason) => reason.status));
+  if (health.status !== "pass") {
+    log.warn("source extraction check", {
+      source: source.id,
+      status: health.status,
+      reasons: reasons.map((r) => r.message),
+    });
+  }
+  return health;
+}
+
+const recentChecks = new Map<string, SourceHealth>();
+
+// Checks a source, reusing a result younger than CHECK_TTL_MS unless refresh
+export async function checkSource(
+  source: NewsletterSource,
+  refresh = false
+): Promise<SourceHealth> {
+  const recent = recentChecks.get(source.id);
+  if (!refresh && recent && Date.now() - Date.parse(recent.checked_at) < CHECK_TTL_MS) {
+    return recent;
+  }
+  const health = await runCheck(source);
+  recentChecks.set(source.id, health);
+  return health;
+}
+
+// Checks several sources in parallel (each source's requests still go through
+// its host's rate limiter)
+export async function checkSources(
+  sources: NewsletterSource[],
+  refresh = false
+): Promise<{ checked_at: string; status: HealthStatus; sources: SourceHealth[] }> {
+  const now = Date.now();
+  refresh &&= now - lastRefresh >= REFRESH_INTERVAL_MS;
+  if (refresh) lastRefresh = now;
+  const results = await Promise.all(sources.map((source) => checkSource(source, refresh)));
+  return {
+    checked_at: new Date().toISOString(),
+    status: worstStatus(results.map((result) => result.status)),
+    sources: results,
+  };
+}
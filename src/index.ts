@@ -1,648 +1,68 @@
 #!/usr/bin/env node
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import { parse } from "node-html-parser";
-import TurndownService from "turndown";
-import { z } from "zod";
-import express from "express";
+import express, { type Request, type RequestHandler, type Response } from "express";
 import { randomUUID } from "crypto";
-
-// ─── Types ────────────────────────────────────────────────────────────────────
-
-interface PostListing {
-  title: string;
-  date: string;
-  url: string;
-  slug: string;
-}
-
-interface PostContent extends PostListing {
-  author: string;
-  subtitle: string;
-  content_markdown: string;
-  external_links: { text: string; url: string }[];
-  featured_image?: string;
-}
-
-// ─── Constants ────────────────────────────────────────────────────────────────
-
-const BASE_URL = "https://www.superhuman.ai";
-const FETCH_DELAY_MS = 300;
-
-const SPONSOR_PATTERNS = [/presented by/i, /sponsored by/i, /advertisement/i];
-
-// ─── HTML → Markdown converter ────────────────────────────────────────────────
-
-const turndown = new TurndownService({
-  headingStyle: "atx",
-  codeBlockStyle: "fenced",
-  bulletListMarker: "-",
-});
-
-turndown.addRule("images", {
-  filter: "img",
-  replacement: (_content, node) => {
-    const el = node as { getAttribute: (name: string) => string | null };
-    const src = el.getAttribute("src") ?? "";
-    const alt = el.getAttribute("alt") ?? "";
-    if (!src) return "";
-    return `![${alt}](${src})\n`;
-  },
-});
-
-// Remove empty links that turndown would otherwise keep as bare brackets
-turndown.addRule("emptyLinks", {
-  filter: (node) =>
-    node.nodeName === "A" &&
-    !(node as { textContent?: string }).textContent?.trim(),
-  replacement: () => "",
-});
-
-// ─── Helpers ──────────────────────────────────────────────────────────────────
-
-async function fetchHtml(url: string): Promise<string> {
-  const res = await fetch(url, {
-    headers: {
-      "User-Agent":
-        "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-      Accept:
-        "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-    },
-  });
-
-  if (!res.ok) {
-    throw new Error(`HTTP ${res.status} fetching ${url}`);
-  }
-
-  return res.text();
-}
-
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+import {
+  authEnabled,
+  authMiddleware,
+  corsMiddleware,
+  loadAuthConfig,
+  protectedResourceMetadata,
+  sendJsonRpcError,
+  type AuthConfig,
+} from "./auth.js";
+import { CLI_COMMANDS, runCli } from "./cli.js";
+import { checkSources } from "./health.js";
+import { log, withLogContext } from "./logger.js";
+import { renderMetrics } from "./metrics.js";
+import { schedulerStats, startScheduler } from "./scheduler.js";
+import { createServer } from "./server.js";
+import { getSource, listSources } from "./sources.js";
+import {
+  addSession,
+  getSession,
+  removeSession,
+  sessionStats,
+  startSessionSweeper,
+  trackStream,
+} from "./sessions.js";
+
+// ─── Observability ──────────────────────────────────────────────────────────
+//
+//   NEWSLETTER_METRICS_PORT   stdio mode: serve /metrics on this port
+
+function serveMetrics(_req: Request, res: Response) {
+  res.type("text/plain; version=0.0.4").send(renderMetrics());
 }
 
-// ─── Step 1: Scrape post listing ──────────────────────────────────────────────
-// Fetches homepage (page 1) or archive pages (?page=N) and extracts the list
-// of post slugs, titles, and dates. Each post card on Beehiiv has two <a>
-// elements pointing to the same href — one wraps the thumbnail, one wraps the
-// title <h2>. We deduplicate by href and read fields from the parent card div.
-
-async function scrapePostListings(page = 1): Promise<PostListing[]> {
-  const url =
-    page === 1 ? BASE_URL : `${BASE_URL}/archive?page=${page}`;
-  const html = await fetchHtml(url);
-  const root = parse(html);
-
-  const seen = new Set<string>();
-  const listings: PostListing[] = [];
-
-  for (const link of root.querySelectorAll('a[href^="/p/"]')) {
-    const href = link.getAttribute("href") ?? "";
-    if (!href.startsWith("/p/") || seen.has(href)) continue;
-    seen.add(href);
-
-    const slug = href.slice(3); // strip leading "/p/"
-    const postUrl = `${BASE_URL}${href}`;
-
-    // The card container is 2 levels up from the <a> (a > div.relative > div.card)
-    const card = link.parentNode?.parentNode;
-
-    // Title from <h2> anywhere in the card, or fall back to img alt
-    const title =
-      card?.querySelector("h2")?.text?.trim() ??
-      card?.querySelector("img")?.getAttribute("alt")?.trim() ??
-      slug.replace(/-/g, " ");
-
-    // Date from the first <span> in the card (shows "Feb 21, 2026" or "3 hours ago")
-    const rawDate = card?.querySelector("span")?.text?.trim() ?? "";
-
-    listings.push({ title, date: rawDate, url: postUrl, slug });
-  }
-
-  return listings;
-}
-
-async function collectListings(count: number): Promise<PostListing[]> {
-  const all: PostListing[] = [];
-  let page = 1;
-
-  while (all.length < count) {
-    const batch = await scrapePostListings(page);
-    if (batch.length === 0) break;
-
-    all.push(...batch);
-    if (all.length >= count) break;
-
-    page++;
-    await sleep(FETCH_DELAY_MS);
-  }
-
-  return all.slice(0, count);
-}
-
-// ─── Step 2: Scrape individual post content ───────────────────────────────────
-// Beehiiv renders post content inside #content-blocks. We strip noise (nav,
-// footer, scripts, style tags, sponsor blocks) then convert to clean markdown.
-
-async function scrapePostContent(listing: PostListing): Promise<PostContent> {
-  const html = await fetchHtml(listing.url);
-  const root = parse(html);
-
-  // ── Metadata (JSON-LD is most reliable) ───────────────────────────────────
-  let title = listing.title;
-  let datePublished = listing.date;
-  let description = "";
-  let featuredImage = "";
-  let author = "Zain Kahn";
-
-  for (const script of root.querySelectorAll(
-    'script[type="application/ld+json"]'
-  )) {
-    try {
-      const data = JSON.parse(script.text);
-      if (data.headline) title = data.headline;
-      if (data.datePublished) {
-        datePublished = new Date(data.datePublished).toLocaleDateString(
-          "en-US",
-          { year: "numeric", month: "long", day: "numeric" }
-        );
+// Extraction check per source; 503 when any source fails so uptime monitors
+// alert. ?source=a,b limits the sources. ?refresh=1 bypasses recent results
+// and, when auth is configured, needs the same credentials as /mcp.
+function sourceHealthRoute(auth: AuthConfig): RequestHandler[] {
+  const requireAuth = authMiddleware(auth);
+  return [
+    (req, res, next) => (req.query.refresh === "1" ? requireAuth(req, res, next) : next()),
+    async (req, res) => {
+      try {
+        const ids = typeof req.query.source === "string" ? req.query.source.split(",") : [];
+        const sources = ids.length > 0 ? ids.map((id) => getSource(id.trim())) : listSources();
+        const report = await checkSources(sources, req.query.refresh === "1");
+        res.status(report.status === "fail" ? 503 : 200).json(report);
+      } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
       }
-      if (data.description) description = data.description;
-      if (data.image?.url) featuredImage = data.image.url;
-      if (data.author?.name) author = data.author.name;
-    } catch {
-      // malformed JSON-LD — skip
-    }
-  }
-
-  // Fallback to OG meta tags
-  if (!title || title === listing.title) {
-    title =
-      root
-        .querySelector('meta[property="og:title"]')
-        ?.getAttribute("content") ??
-      root.querySelector("h1")?.text?.trim() ??
-      title;
-  }
-  if (!description) {
-    description =
-      root
-        .querySelector('meta[property="og:description"]')
-        ?.getAttribute("content") ?? "";
-  }
-  if (!featuredImage) {
-    featuredImage =
-      root
-        .querySelector('meta[property="og:image"]')
-        ?.getAttribute("content") ?? "";
-  }
-
-  // ── Content body ──────────────────────────────────────────────────────────
-  // Beehiiv's actual post body lives in #content-blocks
-  let contentEl =
-    root.querySelector("#content-blocks") ??
-    root.querySelector(".rendered-post") ??
-    root.querySelector("main");
-
-  if (!contentEl) {
-    contentEl = root.querySelector("body") ?? root;
-  }
-
-  // Strip noise elements
-  for (const sel of [
-    "script",
-    "style",
-    "noscript",
-    "nav",
-    "header",
-    "footer",
-    "form",
-    "button",
-    '[class*="subscribe"]',
-    '[class*="share"]',
-    '[class*="follow"]',
-    '[class*="feedback"]',
-    '[class*="poll"]',
-    ".advertisement",
-  ]) {
-    for (const el of contentEl.querySelectorAll(sel)) {
-      el.remove();
-    }
-  }
-
-  // Strip sponsor/ad sections (remove the element whose text matches)
-  for (const el of contentEl.querySelectorAll("h1,h2,h3,h4,p,div")) {
-    if (SPONSOR_PATTERNS.some((p) => p.test(el.text ?? ""))) {
-      el.remove();
-    }
-  }
-
-  // ── Convert HTML → Markdown ───────────────────────────────────────────────
-  let markdown = turndown.turndown(contentEl.innerHTML);
-  markdown = markdown.replace(/\n{3,}/g, "\n\n").trim();
-
-  // ── Collect external links ────────────────────────────────────────────────
-  const seenLinks = new Set<string>();
-  const externalLinks: { text: string; url: string }[] = [];
-
-  for (const a of contentEl.querySelectorAll("a[href]")) {
-    const href = a.getAttribute("href") ?? "";
-    const text = a.text?.trim() ?? "";
-    if (
-      href &&
-      !href.startsWith("#") &&
-      !href.includes("superhuman.ai") &&
-      !href.includes("beehiiv.com") &&
-      !href.includes("twitter.com/intent") &&
-      !href.includes("facebook.com/sharer") &&
-      !href.includes("linkedin.com/sharing") &&
-      text &&
-      !seenLinks.has(href)
-    ) {
-      seenLinks.add(href);
-      externalLinks.push({ text, url: href });
-    }
-  }
-
-  return {
-    ...listing,
-    title,
-    date: datePublished,
-    author,
-    subtitle: description,
-    content_markdown: markdown,
-    external_links: externalLinks,
-    featured_image: featuredImage || undefined,
-  };
-}
-
-// ─── Format for Claude ────────────────────────────────────────────────────────
-
-function formatDigest(posts: PostContent[]): string {
-  const divider = "\n\n" + "─".repeat(80) + "\n\n";
-
-  const fetchedAt = new Date().toLocaleDateString("en-US", {
-    weekday: "long",
-    year: "numeric",
-    month: "long",
-    day: "numeric",
-  });
-
-  const header = [
-    `# Superhuman AI Newsletter — ${posts.length} Most Recent Posts`,
-    `Compiled: ${fetchedAt}`,
-    "",
-    "Full content of each post is included below. Use this to produce a weekly digest",
-    "with combined top stories, must-read links, and a reference back to each source URL.",
-  ].join("\n");
-
-  const sections = posts.map((post, i) => {
-    const meta = [
-      `## [Post ${i + 1}/${posts.length}] ${post.title}`,
-      `**Date:** ${post.date}  |  **Author:** ${post.author}`,
-      `**Source:** <${post.url}>`,
-      post.subtitle ? `**Summary:** ${post.subtitle}` : "",
-      post.featured_image ? `\n![Featured Image](${post.featured_image})\n` : "",
-    ]
-      .filter(Boolean)
-      .join("\n");
-
-    const links =
-      post.external_links.length > 0
-        ? "\n\n**Links referenced in this post:**\n" +
-          post.external_links
-            .map((l) => `- [${l.text}](${l.url})`)
-            .join("\n")
-        : "";
-
-    return `${meta}\n\n${post.content_markdown}${links}`;
-  });
-
-  return header + divider + sections.join(divider);
-}
-
-// ─── The Code newsletter scraper ─────────────────────────────────────────────
-// codenewsletter.ai — also hosted on Beehiiv.
-// Archive: https://codenewsletter.ai/archive (~9 posts via plain fetch).
-// Posts:   https://codenewsletter.ai/p/{slug}
-// Each post card is a single <a href="/p/slug"> with <h3> (title) + <p>.
-
-const CODE_BASE_URL = "https://codenewsletter.ai";
-const CODE_AUTHOR = "The Code team";
-
-async function scrapeCodeListings(): Promise<PostListing[]> {
-  const html = await fetchHtml(`${CODE_BASE_URL}/archive`);
-  const root = parse(html);
-  const seen = new Set<string>();
-  const listings: PostListing[] = [];
-
-  for (const link of root.querySelectorAll('a[href^="/p/"]')) {
-    const href = link.getAttribute("href") ?? "";
-    if (!href.startsWith("/p/") || seen.has(href)) continue;
-    seen.add(href);
-    const slug = href.slice(3);
-    const postUrl = `${CODE_BASE_URL}${href}`;
-    const title = link.querySelector("h3")?.text?.trim() ?? slug.replace(/-/g, " ");
-    const rawDate = link.querySelector("p")?.text?.trim() ?? "";
-    listings.push({ title, date: rawDate, url: postUrl, slug });
-  }
-
-  return listings;
-}
-
-async function scrapeCodePostContent(listing: PostListing): Promise<PostContent> {
-  const html = await fetchHtml(listing.url);
-  const root = parse(html);
-
-  let title = listing.title;
-  let datePublished = listing.date;
-  let description = "";
-  let featuredImage = "";
-  const author = CODE_AUTHOR;
-
-  for (const script of root.querySelectorAll('script[type="application/ld+json"]')) {
-    try {
-      const data = JSON.parse(script.text);
-      if (data.headline) title = data.headline;
-      if (data.datePublished) {
-        datePublished = new Date(data.datePublished).toLocaleDateString("en-US", {
-          year: "numeric", month: "long", day: "numeric",
-        });
-      }
-      if (data.description) description = data.description;
-      if (data.image?.url) featuredImage = data.image.url;
-    } catch { /* skip */ }
-  }
-
-  if (!title || title === listing.title) {
-    title =
-      root.querySelector('meta[property="og:title"]')?.getAttribute("content") ??
-      root.querySelector("h1")?.text?.trim() ?? title;
-  }
-  if (!description) {
-    description = root.querySelector('meta[property="og:description"]')?.getAttribute("content") ?? "";
-  }
-  if (!featuredImage) {
-    featuredImage = root.querySelector('meta[property="og:image"]')?.getAttribute("content") ?? "";
-  }
-
-  let contentEl =
-    root.querySelector("#content-blocks") ??
-    root.querySelector(".rendered-post") ??
-    root.querySelector("main");
-  if (!contentEl) contentEl = root.querySelector("body") ?? root;
-
-  for (const sel of [
-    "script", "style", "noscript", "nav", "header", "footer", "form", "button",
-    '[class*="subscribe"]', '[class*="feedback"]', ".advertisement",
-  ]) {
-    for (const el of contentEl.querySelectorAll(sel)) el.remove();
-  }
-
-  // Strip sponsor/ad sections — only check leaf text elements, not parent divs
-  for (const el of contentEl.querySelectorAll("h1,h2,h3,h4,h5,p")) {
-    if (SPONSOR_PATTERNS.some((p) => p.test(el.text ?? ""))) el.remove();
-  }
-
-  let markdown = turndown.turndown(contentEl.innerHTML);
-  markdown = markdown.replace(/\n{3,}/g, "\n\n").trim();
-
-  const seenLinks = new Set<string>();
-  const externalLinks: { text: string; url: string }[] = [];
-  for (const a of contentEl.querySelectorAll("a[href]")) {
-    const href = a.getAttribute("href") ?? "";
-    const text = a.text?.trim() ?? "";
-    if (
-      href && !href.startsWith("#") &&
-      !href.includes("codenewsletter.ai") && !href.includes("beehiiv.com") &&
-      !href.includes("twitter.com/intent") && !href.includes("facebook.com/sharer") &&
-      !href.includes("linkedin.com/sharing") && text && !seenLinks.has(href)
-    ) {
-      seenLinks.add(href);
-      externalLinks.push({ text, url: href });
-    }
-  }
-
-  return {
-    ...listing, title, date: datePublished, author,
-    subtitle: description, content_markdown: markdown,
-    external_links: externalLinks, featured_image: featuredImage || undefined,
-  };
-}
-
-function formatCodeDigest(posts: PostContent[]): string {
-  const divider = "\n\n" + "─".repeat(80) + "\n\n";
-  const fetchedAt = new Date().toLocaleDateString("en-US", {
-    weekday: "long", year: "numeric", month: "long", day: "numeric",
-  });
-  const header = [
-    `# The Code Newsletter — ${posts.length} Most Recent Posts`,
-    `Compiled: ${fetchedAt}`,
-    "",
-    "Full content of each post is included below. Use this to produce a weekly digest",
-    "with combined top stories, must-read links, and a reference back to each source URL.",
-  ].join("\n");
-  const sections = posts.map((post, i) => {
-    const meta = [
-      `## [Post ${i + 1}/${posts.length}] ${post.title}`,
-      `**Date:** ${post.date}  |  **Author:** ${post.author}`,
-      `**Source:** <${post.url}>`,
-      post.subtitle ? `**Summary:** ${post.subtitle}` : "",
-      post.featured_image ? `\n![Featured Image](${post.featured_image})\n` : "",
-    ].filter(Boolean).join("\n");
-    const links =
-      post.external_links.length > 0
-        ? "\n\n**Links referenced in this post:**\n" +
-          post.external_links.map((l) => `- [${l.text}](${l.url})`).join("\n")
-        : "";
-    return `${meta}\n\n${post.content_markdown}${links}`;
-  });
-  return header + divider + sections.join(divider);
+    },
+  ];
 }
 
-// ─── MCP Server Factory ──────────────────────────────────────────────────────
-
-function createServer(): McpServer {
-  const server = new McpServer({
-    name: "superhuman-newsletter",
-    version: "3.0.0",
-  });
-
-  server.registerTool(
-  "fetch_superhuman_newsletters",
-  {
-    title: "Fetch Superhuman AI Newsletters",
-    description:
-      "Fetches the N most recent posts from the Superhuman AI newsletter (superhuman.ai). " +
-      "Step 1: loads the homepage to collect post URLs. " +
-      "Step 2: visits each post URL and scrapes its full content. " +
-      "Returns one large markdown document containing every post in full — " +
-      "title, date, source URL, body, images, and all external links — " +
-      "ready for Claude to synthesize into a weekly digest without needing to open any URLs itself.",
-    inputSchema: z.object({
-      count: z
-        .number()
-        .min(1)
-        .max(30)
-        .default(7)
-        .describe(
-          "How many recent newsletter posts to fetch. Default is 7 (roughly one week of daily posts)."
-        ),
-    }),
-  },
-  async ({ count }) => {
-    try {
-      // Step 1 — collect post URLs from the homepage / archive pages
-      const listings = await collectListings(count);
-
-      if (listings.length === 0) {
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: "No posts found on superhuman.ai. The site may be temporarily unavailable.",
-            },
-          ],
-        };
-      }
-
-      // Step 2 — fetch full content for each post
-      const posts: PostContent[] = [];
-
-      for (let i = 0; i < listings.length; i++) {
-        try {
-          const content = await scrapePostContent(listings[i]);
-          posts.push(content);
-        } catch (err) {
-          // Keep a placeholder so the digest still includes every post slot
-          posts.push({
-            ...listings[i],
-            author: "Zain Kahn",
-            subtitle: "",
-            content_markdown: `_Could not fetch content: ${
-              err instanceof Error ? err.message : String(err)
-            }_`,
-            external_links: [],
-          });
-        }
-
-        // Polite delay between post fetches (skip after last one)
-        if (i < listings.length - 1) {
-          await sleep(FETCH_DELAY_MS);
-        }
-      }
-
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: formatDigest(posts),
-          },
-        ],
-      };
-    } catch (err) {
-      const message = err instanceof Error ? err.message : String(err);
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: `Error: ${message}`,
-          },
-        ],
-        isError: true,
-      };
-    }
-  }
-  );
-
-server.registerTool(
-  "fetch_code_newsletter",
-  {
-    title: "Fetch The Code Newsletter",
-    description:
-      "Fetches the N most recent posts from The Code newsletter (codenewsletter.ai). " +
-      "Step 1: loads the archive page to collect post URLs. " +
-      "Step 2: visits each post URL and scrapes its full content. " +
-      "Returns one large markdown document containing every post in full — " +
-      "title, date, source URL, body, images, and all external links — " +
-      "ready for Claude to synthesize into a weekly digest without needing to open any URLs itself. " +
-      "Note: the archive page serves up to ~9 posts via plain HTTP; fetching more than 9 will return whatever is available.",
-    inputSchema: z.object({
-      count: z
-        .number()
-        .min(1)
-        .max(9)
-        .default(5)
-        .describe(
-          "How many recent newsletter posts to fetch. Default is 5. Maximum is 9 (archive page limit)."
-        ),
-    }),
-  },
-  async ({ count }) => {
-    try {
-      // Step 1 — collect post URLs from the archive page
-      const listings = await scrapeCodeListings();
-      const target = listings.slice(0, count);
-
-      if (target.length === 0) {
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: "No posts found on codenewsletter.ai. The site may be temporarily unavailable.",
-            },
-          ],
-        };
-      }
-
-      // Step 2 — fetch full content for each post
-      const posts: PostContent[] = [];
-
-      for (let i = 0; i < target.length; i++) {
-        try {
-          const content = await scrapeCodePostContent(target[i]);
-          posts.push(content);
-        } catch (err) {
-          posts.push({
-            ...target[i],
-            author: CODE_AUTHOR,
-            subtitle: "",
-            content_markdown: `_Could not fetch content: ${
-              err instanceof Error ? err.message : String(err)
-            }_`,
-            external_links: [],
-          });
-        }
-
-        if (i < target.length - 1) {
-          await sleep(FETCH_DELAY_MS);
-        }
-      }
+// stdio has no HTTP server of its own, so metrics get a listener of their own
+function startMetricsListener(port: string) {
+  const app = express();
+  app.get("/health/sources", ...sourceHealthRoute(loadAuthConfig()));
 
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: formatCodeDigest(posts),
-          },
-        ],
-      };
-    } catch (err) {
-      const message = err instanceof Error ? err.message : String(err);
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: `Error: ${message}`,
-          },
-        ],
-        isError: true,
-      };
-    }
-  }
-  );
-  return server;
+  app.get("/metrics", serveMetrics);
+  app.listen(port, () => log.info("metrics listening", { port: Number(port) }));
 }
 
 // ─── Transport Modes ────────────────────────────────────────────────────────
@@ -651,31 +71,89 @@ async function startStdioServer() {
   const server = createServer();
   const transport = new StdioServerTransport();
   await server.connect(transport);
-  console.error("MCP server running on stdio");
+  const metricsPort = process.env.NEWSLETTER_METRICS_PORT;
+  if (metricsPort) startMetricsListener(metricsPort);
+  log.info("MCP server running on stdio");
 }
 
 async function startHttpServer() {
+  const auth = loadAuthConfig();
+  if (!authEnabled(auth)) {
+    log.warn(
+      "no MCP_API_KEYS or MCP_OAUTH_ISSUER configured — /mcp is open to anyone who can reach it"
+    );
+  }
+
   const app = express();
+  // Behind a proxy, req.ip is the client only if the proxy is trusted
+  app.set("trust proxy", auth.trustProxy);
   app.use(express.json());
 
-  // CORS — required for Claude.ai cloud connector (cross-origin requests)
-  app.use((_req, res, next) => {
-    res.setHeader("Access-Control-Allow-Origin", "*");
-    res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
-    res.setHeader("Access-Control-Allow-Headers", "Content-Type, mcp-session-id, Accept");
-    res.setHeader("Access-Control-Expose-Headers", "mcp-session-id");
-    next();
+  // Every request gets an id (the caller's X-Request-Id if it sent one) that
+  // is echoed back and attached to everything logged while handling it
+  app.use((req, res, next) => {
+    const requestId = req.get("x-request-id") || randomUUID();
+    res.setHeader("X-Request-Id", requestId);
+    withLogContext({ request_id: requestId, session_id: req.get("mcp-session-id") }, next);
   });
 
+  // CORS — required for Claude.ai cloud connector (cross-origin requests);
+  // restricted to MCP_ALLOWED_ORIGINS when set
+  app.use(corsMiddleware(auth));
+
   // OPTIONS preflight — must respond before the main handler sees it
   app.options("/mcp", (_req, res) => {
     res.sendStatus(204);
   });
 
-  const transports = new Map<string, StreamableHTTPServerTransport>();
+  // OAuth discovery for clients that authenticate with access tokens
+  app.get(
+    ["/.well-known/oauth-protected-resource", "/.well-known/oauth-protected-resource/mcp"],
+    protectedResourceMetadata(auth)
+  );
+
+  // API key / OAuth token check, rate limits and daily quotas
+  app.use("/mcp", authMiddleware(auth));
+
+  startSessionSweeper();
+  startScheduler();
 
   app.get("/health", (_req, res) => {
-    res.json({ status: "ok" });
+    res.json({
+      status: "ok",
+      uptime_seconds: Math.round(process.uptime()),
+      sessions: sessionStats(),
+      scheduler: schedulerStats(),
+    });
+  });
+
+  app.get("/health/sources", ...sourceHealthRoute(auth));
+
+  app.get("/metrics", serveMetrics);
+
+  // Explicit session termination. Unknown (or already expired) sessions get a
+  // 404 like any other request naming one.
+  app.delete("/mcp", async (req, res) => {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    const session = sessionId ? getSession(sessionId) : undefined;
+    if (!sessionId) {
+      sendJsonRpcError(req, res, 400, -32000, "Missing mcp-session-id header");
+      return;
+    }
+    if (!session) {
+      sendJsonRpcError(req, res, 404, -32000, "Session not found");
+      return;
+    }
+    try {
+      // The transport answers the DELETE and closes itself
+      await session.transport.handleRequest(req, res);
+    } catch (error) {
+      log.error("error closing MCP session", { err: error });
+      if (!res.headersSent) sendJsonRpcError(req, res, 500, -32603, "Internal error");
+    } finally {
+      removeSession(sessionId);
+      await session.server.close().catch(() => undefined);
+    }
   });
 
   app.all("/mcp", async (req, res) => {
@@ -683,45 +161,60 @@ async function startHttpServer() {
       const sessionId = req.headers["mcp-session-id"] as string | undefined;
       let transport: StreamableHTTPServerTransport;
 
-      if (sessionId && transports.has(sessionId)) {
-        transport = transports.get(sessionId)!;
-      } else if (!sessionId && req.method === "POST" && req.body?.method === "initialize") {
+      if (sessionId) {
+        const session = getSession(sessionId);
+        if (!session) {
+          // Expired, evicted or never existed: the client should re-initialize
+          sendJsonRpcError(req, res, 404, -32000, "Session not found");
+          return;
+        }
+        transport = session.transport;
+        if (req.method === "GET") trackStream(session, res);
+      } else if (req.method === "POST" && req.body?.method === "initialize") {
+        const server = createServer();
         transport = new StreamableHTTPServerTransport({
           sessionIdGenerator: () => randomUUID(),
-          onsessioninitialized: (newSessionId) => {
-            transports.set(newSessionId, transport);
-          },
+          onsessioninitialized: (newSessionId) => addSession(newSessionId, transport, server),
+          onsessionclosed: (closedSessionId) => removeSession(closedSessionId),
         });
         transport.onclose = () => {
           const sid = transport.sessionId;
-          if (sid) transports.delete(sid);
+          if (sid) removeSession(sid);
         };
-        const server = createServer();
         await server.connect(transport);
       } else {
-        res.status(400).json({ jsonrpc: "2.0", error: { code: -32000, message: "Bad Request" }, id: null });
+        sendJsonRpcError(req, res, 400, -32000, "Bad Request: no valid session ID provided");
         return;
       }
 
       await transport.handleRequest(req, res, req.body);
     } catch (error) {
-      console.error("Error handling MCP request:", error);
+      log.error("error handling MCP request", { err: error });
       if (!res.headersSent) {
-        res.status(500).json({ jsonrpc: "2.0", error: { code: -32603, message: "Internal error" }, id: null });
+        sendJsonRpcError(req, res, 500, -32603, "Internal error");
       }
     }
   });
 
   const PORT = process.env.PORT ?? 3000;
   app.listen(PORT, () => {
-    console.error(`MCP HTTP server listening on port ${PORT}`);
-    console.error(`Endpoint: http://localhost:${PORT}/mcp`);
+    log.info("MCP HTTP server listening", {
+      port: Number(PORT),
+      endpoint: `http://localhost:${PORT}/mcp`,
+    });
   });
 }
 
 // ─── Entry point ─────────────────────────────────────────────────────────────
 
 async function main() {
+  // A command (fetch, get, search, …) runs once and exits; see cli.ts
+  const command = process.argv[2];
+  if (command && (CLI_COMMANDS.includes(command) || command === "--help" || command === "-h")) {
+    process.exitCode = await runCli(process.argv.slice(2));
+    return;
+  }
+
   const isHttpMode = process.argv.includes("--http") || process.env.PORT !== undefined;
   if (isHttpMode) {
     await startHttpServer();
@@ -731,6 +224,6 @@ async function main() {
 }
 
 main().catch((error) => {
-  console.error("Fatal error:", error);
+  log.error("fatal error", { err: error });
   process.exit(1);
 });
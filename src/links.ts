@@ -0,0 +1,360 @@
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+import { parse } from "node-html-parser";
+import { readCachedLink, writeCachedLink } from "./cache.js";
+import { FETCH_DELAY_MS, REQUEST_HEADERS, fetchConcurrency, mapConcurrent, sleep } from "./fetcher.js";
+import { log } from "./logger.js";
+import { linkRequests } from "./metrics.js";
+import type { PostContent, PostLink } from "./types.js";
+
+// ─── Link enrichment ─────────────────────────────────────────────────────────
+// Newsletter links are often tracking redirects or carry UTM parameters, and
+// their text is frequently just "here" or "this". Enrichment follows each
+// link's redirects to its destination, strips tracking parameters from the
+// result and, in "metadata" mode, reads the destination page's title and
+// description. Links to the same destination are then merged within a post,
+// and rankLinks counts how many posts cite each destination.
+//
+// Destinations are cached for a week (see cache.ts). A link that can't be
+// resolved keeps its original URL, minus tracking parameters.
+//
+// Links point anywhere on the web, so they don't go through fetcher.ts, whose
+// per-host state and metric labels are meant for the handful of newsletter
+// hosts. Requests here are paced per host in a bounded map and counted under
+// a single metric.
+//
+// Link URLs come from post content, so they are untrusted: redirects are
+// followed by hand, and before each hop the host is resolved and refused if
+// any of its addresses is loopback, private, link-local (which includes cloud
+// metadata endpoints) or otherwise not publicly routable.
+
+export type LinkEnrichment = "none" | "resolve" | "metadata";
+
+// What enrichment learned about a link's destination
+interface LinkTarget {
+  url: string;
+  domain: string;
+  title?: string;
+  description?: string;
+  // Whether title/description were looked up (they may still be absent)
+  metadata: boolean;
+}
+
+export interface CitedLink {
+  url: string;
+  domain: string;
+  title?: string;
+  description?: string;
+  // Distinct link texts used for it
+  texts: string[];
+  // Number of posts linking to it
+  citations: number;
+  posts: { title: string; url: string }[];
+}
+
+const TRACKING_PARAMS = [
+  /^utm_/i,
+  /^_bhlid$/i, // Beehiiv
+  /^(fbclid|gclid|dclid|msclkid|yclid|igshid|twclid)$/i,
+  /^(mc_cid|mc_eid|_hsenc|_hsmi|mkt_tok|oly_enc_id|oly_anon_id|vero_id|ref_src)$/i,
+];
+
+const MAX_DESCRIPTION_CHARS = 300;
+const MAX_RANKED_LINKS = 10;
+const LINK_TIMEOUT_MS = 10_000;
+// Title and description live in <head>; the rest of the page isn't read
+const MAX_METADATA_BYTES = 256 * 1024;
+const MAX_REDIRECTS = 5;
+// Hosts whose last request time is remembered for pacing
+const MAX_PACED_HOSTS = 1000;
+
+// The URL without tracking query parameters
+export function stripTracking(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+  for (const name of [...parsed.searchParams.keys()]) {
+    if (TRACKING_PARAMS.some((pattern) => pattern.test(name))) {
+      parsed.searchParams.delete(name);
+    }
+  }
+  return parsed.toString().replace(/\?(?=#|$)/, "");
+}
+
+function domainOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return "";
+  }
+}
+
+// Identity used to merge links: host without www, no trailing slash, no fragment
+function linkKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const path = parsed.pathname.replace(/\/+$/, "");
+    return `${parsed.hostname.replace(/^www\./, "").toLowerCase()}${path}${parsed.search}`;
+  } catch {
+    return url;
+  }
+}
+
+function pageMetadata(html: string): { title?: string; description?: string } {
+  const root = parse(html);
+  const meta = (selector: string) =>
+    root.querySelector(selector)?.getAttribute("content")?.trim() || undefined;
+  const title =
+    meta('meta[property="og:title"]') ?? (root.querySelector("title")?.text.trim() || undefined);
+  let description = meta('meta[property="og:description"]') ?? meta('meta[name="description"]');
+  if (description && description.length > MAX_DESCRIPTION_CHARS) {
+    description = description.slice(0, MAX_DESCRIPTION_CHARS - 1).trimEnd() + "…";
+  }
+  return { title, description };
+}
+
+// ─── Fetching link targets ───────────────────────────────────────────────────
+
+// Addresses a link must never reach: this machine, its networks and the
+// special-purpose ranges. BlockList checks IPv4-mapped IPv6 addresses
+// (::ffff:a.b.c.d) against the IPv4 subnets.
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // link-local, cloud metadata
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3], // multicast and reserved
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127], // unspecified and loopback
+  ["64:ff9b::", 96], // NAT64
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+  ["ff00::", 8], // multicast
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+// Whether an IP address is outside the public internet
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return blockedAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+// Throws unless `url` is http(s) and its host resolves only to public addresses
+async function assertPublic(url: URL): Promise<void> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Refusing to fetch ${url.protocol} link ${url.href}`);
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(host) ? [{ address: host }] : await lookup(host, { all: true, verbatim: true });
+  const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+  if (blocked) throw new Error(`Refusing to fetch ${url.href}: ${host} resolves to ${blocked.address}`);
+}
+
+// Next free request slot per host. Map order is insertion order, so when the
+// map is full the host paced longest ago is dropped.
+const nextSlot = new Map<string, number>();
+
+// Waits until a request to `host` is FETCH_DELAY_MS after the previous one
+async function pace(host: string): Promise<void> {
+  const now = Date.now();
+  const slot = Math.max(now, (nextSlot.get(host) ?? 0) + FETCH_DELAY_MS);
+  nextSlot.delete(host);
+  if (nextSlot.size >= MAX_PACED_HOSTS) nextSlot.delete(nextSlot.keys().next().value!);
+  nextSlot.set(host, slot);
+  if (slot > now) await sleep(slot - now);
+}
+
+// Reads at most `limit` bytes of the body, then releases the connection
+async function readStart(res: Response, limit: number): Promise<string> {
+  if (!res.body) return "";
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (size < limit) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.byteLength;
+  }
+  await reader.cancel();
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+// Fetches one hop, without following redirects, after checking where it goes
+async function fetchHop(url: URL, signal: AbortSignal): Promise<Response> {
+  try {
+    await assertPublic(url);
+  } catch (err) {
+    linkRequests.inc({ status: "blocked" });
+    throw err;
+  }
+  await pace(url.hostname);
+  let res: Response;
+  try {
+    res = await fetch(url, { headers: REQUEST_HEADERS, redirect: "manual", signal });
+  } catch (err) {
+    const timedOut = err instanceof Error && err.name === "TimeoutError";
+    linkRequests.inc({ status: timedOut ? "timeout" : "network_error" });
+    throw err;
+  }
+  linkRequests.inc({ status: String(res.status) });
+  return res;
+}
+
+// Follows the link's redirects, checking each hop. The body is only read (in
+// part) when page metadata is wanted and the destination is HTML.
+async function fetchTarget(
+  link: string,
+  metadata: boolean
+): Promise<{ url: string; title?: string; description?: string }> {
+  const signal = AbortSignal.timeout(LINK_TIMEOUT_MS);
+  let url = new URL(link);
+  let res = await fetchHop(url, signal);
+  for (let hops = 0; res.status >= 300 && res.status < 400 && res.headers.has("location"); hops++) {
+    await res.body?.cancel();
+    if (hops === MAX_REDIRECTS) throw new Error(`Too many redirects fetching ${link}`);
+    url = new URL(res.headers.get("location")!, url);
+    res = await fetchHop(url, signal);
+  }
+
+  const html = res.ok && metadata && /html/i.test(res.headers.get("content-type") ?? "");
+  if (!html) await res.body?.cancel();
+  if (!res.ok) throw new Error(`HTTP ${res.status} fetching ${url.href}`);
+  return {
+    url: url.href,
+    ...(html ? pageMetadata(await readStart(res, MAX_METADATA_BYTES)) : {}),
+  };
+}
+
+async function resolveLink(url: string, metadata: boolean): Promise<LinkTarget> {
+  const cached = await readCachedLink<LinkTarget>(url);
+  if (cached && (cached.metadata || !metadata)) return cached;
+
+  try {
+    // Link targets are best effort: one attempt, so dead links don't stall the call
+    const page = await fetchTarget(url, metadata);
+    const destination = stripTracking(page.url);
+    const target: LinkTarget = {
+      url: destination,
+      domain: domainOf(destination),
+      metadata,
+      ...(page.title ? { title: page.title } : {}),
+      ...(page.description ? { description: page.description } : {}),
+    };
+    await writeCachedLink(url, target);
+    return target;
+  } catch (err) {
+    log.debug("link not resolved", { url, err });
+    const stripped = stripTracking(url);
+    return { url: stripped, domain: domainOf(stripped), metadata: false };
+  }
+}
+
+// Applies resolved destinations to a list of links, merging links that lead
+// to the same place (the first one's text is kept)
+function enrichLinks(links: PostLink[], targets: Map<string, LinkTarget>): PostLink[] {
+  const merged = new Map<string, PostLink>();
+  for (const link of links) {
+    const target = targets.get(link.url);
+    if (!target) continue;
+    const key = linkKey(target.url);
+    if (merged.has(key)) continue;
+    merged.set(key, {
+      text: link.text,
+      url: target.url,
+      ...(target.url !== link.url ? { original_url: link.url } : {}),
+      domain: target.domain,
+      ...(target.title ? { title: target.title } : {}),
+      ...(target.description ? { description: target.description } : {}),
+    });
+  }
+  return [...merged.values()];
+}
+
+// Rewrites link URLs in markdown to their destinations
+function rewriteMarkdown(markdown: string, targets: Map<string, LinkTarget>): string {
+  let result = markdown;
+  for (const [original, target] of targets) {
+    if (target.url !== original) result = result.split(`](${original})`).join(`](${target.url})`);
+  }
+  return result;
+}
+
+// Resolves every external link of the posts (each distinct URL once, through
+// the shared worker pool) and returns the posts with enriched links
+export async function enrichPosts(
+  posts: PostContent[],
+  mode: LinkEnrichment
+): Promise<PostContent[]> {
+  if (mode === "none") return posts;
+
+  const urls = [
+    ...new Set(
+      posts.flatMap((post) => [
+        ...post.external_links.map((link) => link.url),
+        ...post.sections.flatMap((section) => section.links.map((link) => link.url)),
+      ])
+    ),
+  ];
+  const resolved = await mapConcurrent(urls, fetchConcurrency(), (url) =>
+    resolveLink(url, mode === "metadata")
+  );
+  const targets = new Map(urls.map((url, i) => [url, resolved[i]]));
+
+  return posts.map((post) => ({
+    ...post,
+    content_markdown: rewriteMarkdown(post.content_markdown, targets),
+    external_links: enrichLinks(post.external_links, targets),
+    sections: post.sections.map((section) => ({
+      ...section,
+      content_markdown: rewriteMarkdown(section.content_markdown, targets),
+      links: enrichLinks(section.links, targets),
+    })),
+  }));
+}
+
+// Destinations linked from more than one post, most-cited first (ties keep
+// the order links first appeared in)
+export function rankLinks(posts: PostContent[], limit = MAX_RANKED_LINKS): CitedLink[] {
+  const cited = new Map<string, CitedLink>();
+  for (const post of posts) {
+    const seenInPost = new Set<string>();
+    for (const link of post.external_links) {
+      const key = linkKey(link.url);
+      const entry = cited.get(key) ?? {
+        url: link.url,
+        domain: link.domain ?? domainOf(link.url),
+        title: link.title,
+        description: link.description,
+        texts: [],
+        citations: 0,
+        posts: [],
+      };
+      if (!entry.texts.includes(link.text)) entry.texts.push(link.text);
+      if (!seenInPost.has(key)) {
+        seenInPost.add(key);
+        entry.citations++;
+        entry.posts.push({ title: post.title, url: post.url });
+      }
+      cited.set(key, entry);
+    }
+  }
+  return [...cited.values()]
+    .filter((link) => link.citations > 1)
+    .sort((a, b) => b.citations - a.citations)
+    .slice(0, limit);
+}
@@ -0,0 +1,59 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+// ─── Structured logging ──────────────────────────────────────────────────────
+// One JSON object per line on stderr (stdout belongs to the stdio transport):
+//
+//   {"time":"…","level":"info","msg":"tool call","request_id":"…","session_id":"…","rpc_id":"…","tool":"…"}
+//
+// Ids come from the context set with withLogContext, so log lines from deep
+// inside a scrape are tied to the request that caused it: request_id is the
+// HTTP request (HTTP mode only), rpc_id the JSON-RPC request id.
+//
+//   NEWSLETTER_LOG_LEVEL   debug, info (default), warn or error
+
+type Level = "debug" | "info" | "warn" | "error";
+
+const LEVELS: Record<Level, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export interface LogContext {
+  request_id?: string;
+  session_id?: string;
+  rpc_id?: string;
+  tool?: string;
+}
+
+const context = new AsyncLocalStorage<LogContext>();
+
+export function withLogContext<T>(fields: LogContext, fn: () => T): T {
+  return context.run({ ...context.getStore(), ...fields }, fn);
+}
+
+function minLevel(): number {
+  const level = process.env.NEWSLETTER_LOG_LEVEL?.toLowerCase() as Level | undefined;
+  return LEVELS[level ?? "info"] ?? LEVELS.info;
+}
+
+function serializeError(err: unknown): unknown {
+  return err instanceof Error ? { name: err.name, message: err.message, stack: err.stack } : err;
+}
+
+function write(level: Level, msg: string, fields: Record<string, unknown> = {}): void {
+  if (LEVELS[level] < minLevel()) return;
+  const entry: Record<string, unknown> = {
+    time: new Date().toISOString(),
+    level,
+    msg,
+    ...context.getStore(),
+  };
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) entry[key] = key === "err" ? serializeError(value) : value;
+  }
+  process.stderr.write(JSON.stringify(entry) + "\n");
+}
+
+export const log = {
+  debug: (msg: string, fields?: Record<string, unknown>) => write("debug", msg, fields),
+  info: (msg: string, fields?: Record<string, unknown>) => write("info", msg, fields),
+  warn: (msg: string, fields?: Record<string, unknown>) => write("warn", msg, fields),
+  error: (msg: string, fields?: Record<string, unknown>) => write("error", msg, fields),
+};
@@ -0,0 +1,281 @@
+// ─── Markdown to HTML ────────────────────────────────────────────────────────
+// Post bodies are stored as the markdown turndown produces (atx headings,
+// fenced code, "-" bullets), and digests written by Claude use the same subset.
+// This renders that subset to HTML for exports: headings, paragraphs, nested
+// lists, blockquotes, code, rules, links, images, bold and italics. Links and
+// images are kept only for http(s), mailto and relative targets. Output is
+// well-formed XHTML (void elements are self-closed) so EPUB chapters can use
+// it as is, and each element can carry an inline style for email clients that
+// drop <style> blocks.
+
+export interface HtmlOptions {
+  // Inline style per tag name, e.g. { p: "margin:0 0 16px" }
+  styles?: Record<string, string>;
+  // Added to every heading level (capped at h6), so a post's "##" sections
+  // nest under the heading the post itself is given
+  headingOffset?: number;
+  // false drops images (EPUB can't reference remote ones)
+  images?: boolean;
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+function openTag(tag: string, options: HtmlOptions, attrs: Record<string, string> = {}): string {
+  const style = options.styles?.[tag];
+  const all = style ? { ...attrs, style } : attrs;
+  const rendered = Object.entries(all)
+    .map(([name, value]) => ` ${name}="${escapeHtml(value)}"`)
+    .join("");
+  return `<${tag}${rendered}>`;
+}
+
+function element(tag: string, inner: string, options: HtmlOptions, attrs?: Record<string, string>): string {
+  return `${openTag(tag, options, attrs)}${inner}</${tag}>`;
+}
+
+// ── Inline ──────────────────────────────────────────────────────────────────
+
+// A URL, allowing one level of balanced parentheses (Wikipedia links)
+const URL_PATTERN = String.raw`((?:[^()\s]|\([^()\s]*\))+)`;
+const IMAGE = new RegExp(String.raw`!\[([^\]]*)\]\(${URL_PATTERN}(?:\s+&quot;[^)]*&quot;)?\)`, "g");
+const LINK = new RegExp(String.raw`\[([^\]]*)\]\(${URL_PATTERN}(?:\s+&quot;[^)]*&quot;)?\)`, "g");
+
+function selfClosing(tag: string, options: HtmlOptions, attrs?: Record<string, string>): string {
+  return openTag(tag, options, attrs).replace(/>$/, " />");
+}
+
+// A run of "*" or "_" and the tags it turned into
+interface DelimiterRun {
+  char: string;
+  // Characters not used by a match, rendered as literal text
+  length: number;
+  opening: string[];
+  closing: string[];
+}
+
+// Bold and italics, matched with a delimiter stack much as CommonMark does:
+// a closing run pairs with the nearest open run of the same character, and
+// runs left open between the two stay literal, so tags always nest.
+function emphasize(html: string, options: HtmlOptions): string {
+  const tokens: (string | DelimiterRun)[] = [];
+  const openers: DelimiterRun[] = [];
+  let last = 0;
+
+  for (const match of html.matchAll(/\*+|_+/g)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    const before = html[start - 1] ?? " ";
+    const after = html[end] ?? " ";
+    const char = match[0][0];
+    const run: DelimiterRun = { char, length: match[0].length, opening: [], closing: [] };
+    // "_" never opens or closes inside a word (snake_case stays as is)
+    const canOpen = /\S/.test(after) && !(char === "_" && /\w/.test(before));
+    const canClose = /\S/.test(before) && !(char === "_" && /\w/.test(after));
+    tokens.push(html.slice(last, start), run);
+    last = end;
+
+    while (canClose && run.length > 0) {
+      let i = openers.length - 1;
+      while (i >= 0 && openers[i].char !== char) i--;
+      if (i < 0) break;
+      const opener = openers[i];
+      const used = opener.length >= 2 && run.length >= 2 ? 2 : 1;
+      const tag = used === 2 ? "strong" : "em";
+      opener.length -= used;
+      run.length -= used;
+      // Later matches enclose earlier ones
+      opener.opening.unshift(openTag(tag, options));
+      run.closing.push(`</${tag}>`);
+      openers.length = opener.length > 0 ? i + 1 : i;
+    }
+    if (canOpen && run.length > 0) openers.push(run);
+  }
+  tokens.push(html.slice(last));
+
+  return tokens
+    .map((token) =>
+      typeof token === "string"
+        ? token
+        : `${token.closing.join("")}${token.char.repeat(token.length)}${token.opening.join("")}`
+    )
+    .join("");
+}
+
+// Link and image targets with a scheme other than these are dropped, so a
+// `javascript:` link in a post can't end up clickable in an export
+const SAFE_SCHEMES = ["http:", "https:", "mailto:"];
+
+function safeUrl(url: string): boolean {
+  // Browsers ignore whitespace and control characters inside the scheme
+  const scheme = /^([a-z][a-z0-9+.-]*:)/i.exec(url.replace(/[\u0000-\u0020]/g, ""));
+  return !scheme || SAFE_SCHEMES.includes(scheme[1].toLowerCase());
+}
+
+function renderInline(text: string, options: HtmlOptions): string {
+  // Code spans, escapes, links and images are set aside as they're rendered so
+  // later rules don't apply inside them (an "_" in a URL), then restored
+  const held: string[] = [];
+  const hold = (html: string) => `\u0000${held.push(html) - 1}\u0000`;
+
+  let html = text
+    .replace(/`([^`]+)`/g, (_, code: string) => hold(element("code", escapeHtml(code), options)))
+    .replace(/\\([\\`*_{}[\]()#+\-.!>~|])/g, (_, char: string) => hold(escapeHtml(char)));
+  html = escapeHtml(html);
+
+  html = html
+    .replace(IMAGE, (_, alt: string, src: string) =>
+      options.images === false || !safeUrl(unescapeHtml(src))
+        ? ""
+        : hold(selfClosing("img", options, { src: unescapeHtml(src), alt: unescapeHtml(alt) }))
+    )
+    .replace(LINK, (_, label: string, href: string) =>
+      safeUrl(unescapeHtml(href))
+        ? hold(element("a", emphasize(label, options), options, { href: unescapeHtml(href) }))
+        : hold(emphasize(label, options))
+    )
+    .replace(/&lt;(https?:\/\/[^\s&]+)&gt;/g, (_, href: string) =>
+      hold(element("a", href, options, { href }))
+    );
+  html = emphasize(html, options)
+    .replace(/(?: {2,}|\\)\n/g, "<br />")
+    .replace(/\n/g, " ");
+
+  return html.replace(/\u0000(\d+)\u0000/g, (_, i: string) => held[Number(i)]);
+}
+
+function unescapeHtml(text: string): string {
+  return text.replace(/&(amp|lt|gt|quot|#39);/g, (entity) =>
+    Object.keys(HTML_ESCAPES).find((char) => HTML_ESCAPES[char] === entity)!
+  );
+}
+
+// ── Blocks ──────────────────────────────────────────────────────────────────
+
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+
+function startsBlock(line: string): boolean {
+  return (
+    FENCE.test(line) || HEADING.test(line) || RULE.test(line) || LIST_ITEM.test(line) || QUOTE.test(line)
+  );
+}
+
+function renderList(lines: string[], start: number, options: HtmlOptions): { html: string; next: number } {
+  const first = LIST_ITEM.exec(lines[start])!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: string[] = [];
+
+  let i = start;
+  while (i < lines.length) {
+    const match = LIST_ITEM.exec(lines[i]);
+    if (!match || match[1].length !== indent || /\d/.test(match[2]) !== ordered) break;
+
+    // The item's own lines: its first line, then anything indented past the
+    // marker, including blank lines between them
+    const body = [match[3]];
+    const contentIndent = match[0].length - match[3].length;
+    i++;
+    while (i < lines.length) {
+      const line = lines[i];
+      if (line.trim() === "") {
+        const nextIndented = lines.slice(i + 1).find((l) => l.trim() !== "");
+        if (!nextIndented || nextIndented.length - nextIndented.trimStart().length <= indent) break;
+        body.push("");
+      } else if (line.length - line.trimStart().length > indent) {
+        body.push(line.slice(Math.min(contentIndent, line.length - line.trimStart().length)));
+      } else if (!startsBlock(line) && body[body.length - 1] !== "") {
+        body.push(line); // lazy continuation of the item's paragraph
+      } else {
+        break;
+      }
+      i++;
+    }
+
+    // Items without blank lines are tight: their text isn't wrapped in <p>
+    let inner = renderBlocks(body, options);
+    if (!body.includes("")) inner = inner.replace(/^<p[^>]*>([\s\S]*?)<\/p>\n?/, "$1");
+    items.push(element("li", inner, options));
+  }
+
+  const number = ordered ? parseInt(first[2], 10) : 1;
+  const attrs = number !== 1 ? { start: String(number) } : undefined;
+  return { html: element(ordered ? "ol" : "ul", items.join(""), options, attrs), next: i };
+}
+
+function renderBlocks(lines: string[], options: HtmlOptions): string {
+  const blocks: string[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (line.trim() === "") {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i].trimStart().startsWith(fence[1]); i++) {
+        code.push(lines[i]);
+      }
+      i++;
+      blocks.push(element("pre", element("code", escapeHtml(code.join("\n")), options), options));
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const level = Math.min(heading[1].length + (options.headingOffset ?? 0), 6);
+      blocks.push(element(`h${level}`, renderInline(heading[2], options), options));
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push(selfClosing("hr", options));
+      i++;
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const list = renderList(lines, i, options);
+      blocks.push(list.html);
+      i = list.next;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      for (; i < lines.length && QUOTE.test(lines[i]); i++) quoted.push(QUOTE.exec(lines[i])![1]);
+      blocks.push(element("blockquote", renderBlocks(quoted, options), options));
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    for (; i < lines.length && lines[i].trim() !== "" && (paragraph.length === 0 || !startsBlock(lines[i])); i++) {
+      paragraph.push(lines[i].trimStart());
+    }
+    const inner = renderInline(paragraph.join("\n"), options);
+    // Drop paragraphs left empty, e.g. one that only held a dropped image
+    if (inner.trim()) blocks.push(element("p", inner, options));
+  }
+  return blocks.join("\n");
+}
+
+export function markdownToHtml(markdown: string, options: HtmlOptions = {}): string {
+  return renderBlocks(markdown.replace(/\r\n?/g, "\n").split("\n"), options);
+}
@@ -0,0 +1,152 @@
+// ─── Metrics ─────────────────────────────────────────────────────────────────
+// A small in-process registry of counters, gauges and histograms, rendered in
+// the Prometheus text exposition format by /metrics (HTTP mode) or by the
+// metrics listener started with NEWSLETTER_METRICS_PORT (stdio mode). Label
+// sets are few — tool names, hosts, sources, status codes — so everything is
+// kept in plain maps.
+
+type Labels = Record<string, string>;
+
+// Seconds; suits both quick cache hits and slow multi-post scrapes
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+interface Metric {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  render(): string[];
+}
+
+const metrics: Metric[] = [];
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((key) => `${key}="${labels[key].replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`)
+    .join(",");
+}
+
+function series(name: string, key: string, extra = ""): string {
+  const labels = [key, extra].filter(Boolean).join(",");
+  return labels ? `${name}{${labels}}` : name;
+}
+
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+}
+
+export function counter(name: string, help: string): Counter {
+  const values = new Map<string, number>();
+  metrics.push({
+    name,
+    help,
+    type: "counter",
+    render: () => [...values].map(([key, value]) => `${series(name, key)} ${value}`),
+  });
+  return {
+    inc(labels = {}, value = 1) {
+      const key = labelKey(labels);
+      values.set(key, (values.get(key) ?? 0) + value);
+    },
+  };
+}
+
+// Gauges are read when /metrics is scraped
+export function gauge(name: string, help: string, collect: () => [Labels, number][]): void {
+  metrics.push({
+    name,
+    help,
+    type: "gauge",
+    render: () => collect().map(([labels, value]) => `${series(name, labelKey(labels))} ${value}`),
+  });
+}
+
+export interface Histogram {
+  observe(labels: Labels, value: number): void;
+  // Starts a timer; the returned function records the elapsed seconds
+  startTimer(labels: Labels): () => void;
+}
+
+export function histogram(name: string, help: string, buckets = DURATION_BUCKETS): Histogram {
+  const values = new Map<string, { counts: number[]; sum: number; count: number }>();
+  metrics.push({
+    name,
+    help,
+    type: "histogram",
+    render: () =>
+      [...values].flatMap(([key, { counts, sum, count }]) => [
+        ...buckets.map((bound, i) => `${series(`${name}_bucket`, key, `le="${bound}"`)} ${counts[i]}`),
+        `${series(`${name}_bucket`, key, 'le="+Inf"')} ${count}`,
+        `${series(`${name}_sum`, key)} ${sum}`,
+        `${series(`${name}_count`, key)} ${count}`,
+      ]),
+  });
+
+  const observe = (labels: Labels, value: number) => {
+    const key = labelKey(labels);
+    const entry = values.get(key) ?? { counts: buckets.map(() => 0), sum: 0, count: 0 };
+    buckets.forEach((bound, i) => {
+      if (value <= bound) entry.counts[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+    values.set(key, entry);
+  };
+
+  return {
+    observe,
+    startTimer(labels) {
+      const start = process.hrtime.bigint();
+      return () => observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+    },
+  };
+}
+
+export function renderMetrics(): string {
+  return (
+    metrics
+      .flatMap((metric) => [
+        `# HELP ${metric.name} ${metric.help}`,
+        `# TYPE ${metric.name} ${metric.type}`,
+        ...metric.render(),
+      ])
+      .join("\n") + "\n"
+  );
+}
+
+// ─── Application metrics ─────────────────────────────────────────────────────
+
+export const toolCalls = counter("mcp_tool_calls_total", "MCP tool calls by tool and outcome (ok or error)");
+export const toolDuration = histogram("mcp_tool_call_duration_seconds", "MCP tool call latency");
+
+export const fetchRequests = counter(
+  "newsletter_fetch_requests_total",
+  "HTTP fetch attempts by host and status code (or timeout, network_error, circuit_open)"
+);
+export const fetchDuration = histogram("newsletter_fetch_duration_seconds", "HTTP fetch attempt latency by host");
+
+export const linkRequests = counter(
+  "newsletter_link_requests_total",
+  "Link enrichment requests by status code (or timeout, network_error, blocked)"
+);
+
+export const cacheLookups = counter(
+  "newsletter_cache_lookups_total",
+  "Cache lookups by kind (posts, listings, links) and result (hit, miss)"
+);
+
+export const postsScraped = counter(
+  "newsletter_posts_scraped_total",
+  "Posts scraped by source and result (ok, empty, failed); empty means extraction produced no body"
+);
+
+export const newPostsDetected = counter(
+  "newsletter_new_posts_total",
+  "New posts found by the scheduler, by source"
+);
+export const webhookDeliveries = counter(
+  "newsletter_webhook_deliveries_total",
+  "Webhook delivery attempts by outcome (delivered, retry, failed)"
+);
+
+gauge("process_uptime_seconds", "Seconds since the process started", () => [[{}, Math.round(process.uptime())]]);
@@ -0,0 +1,185 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { truncateMarkdown } from "./budget.js";
+import { clusterStories, extractStories, type Story } from "./cluster.js";
+import { parseWindow } from "./dates.js";
+import { formatClusters } from "./format.js";
+import { fetchPosts } from "./scraper.js";
+import { getSource, listSources } from "./sources.js";
+
+// ─── MCP prompts ─────────────────────────────────────────────────────────────
+// Ready-made digest prompts, so everyone on the team gets the same structure.
+// Each prompt fetches the window's posts (through the cache), groups stories
+// about the same event as fetch_weekly_digest_sources does, and embeds them
+// after the instructions. Every digest uses the same skeleton — top stories,
+// must-read links, a source reference per item — plus a prompt-specific part.
+
+type DigestLength = "short" | "medium" | "long";
+
+interface DigestPrompt {
+  name: string;
+  title: string;
+  description: string;
+  defaultAudience: string;
+  // What to focus on, and the extra section this digest ends with
+  focus: string;
+  extraSection: string;
+  // Story text beyond this many chars is trimmed before embedding
+  storyChars: number;
+}
+
+const LENGTHS: Record<DigestLength, { stories: number; links: number; words: string }> = {
+  short: { stories: 3, links: 3, words: "about 300 words" },
+  medium: { stories: 5, links: 5, words: "about 700 words" },
+  long: { stories: 10, links: 10, words: "about 1,500 words" },
+};
+
+const DIGEST_PROMPTS: DigestPrompt[] = [
+  {
+    name: "weekly_ai_digest",
+    title: "Weekly AI Digest",
+    description:
+      "A weekly digest of the AI newsletters: the week's top stories, must-read links and a source reference for each item.",
+    defaultAudience: "a general team that wants to keep up with AI",
+    focus:
+      "Cover the events that mattered most this week — model releases, product launches, funding and policy — " +
+      "favouring stories covered by more than one newsletter or issue.",
+    extraSection:
+      "## Quick hits\nOne line each for other notable items that didn't make the top stories.",
+    storyChars: 3000,
+  },
+  {
+    name: "developer_digest",
+    title: "Developer Digest",
+    description:
+      "A digest for engineers: new models and APIs, developer tools, open-source releases and techniques worth trying.",
+    defaultAudience: "software engineers building with AI",
+    focus:
+      "Prioritise what a developer can use: model and API releases, SDKs and developer tools, open-source projects, " +
+      "pricing or rate-limit changes, and practical techniques. Skip funding and business news unless it changes what developers can build with.",
+    extraSection:
+      "## Try this week\nTwo or three concrete things to try — a tool, an API, a prompt or a technique — each with its link.",
+    storyChars: 2000,
+  },
+  {
+    name: "executive_brief",
+    title: "Executive Brief",
+    description:
+      "A short brief for leadership: the few developments that matter strategically and what they mean for the business.",
+    defaultAudience: "executives and non-technical leaders",
+    focus:
+      "Keep it strategic and jargon-free: competitive moves, major launches, funding, regulation and market shifts. " +
+      "For each story say in one sentence why it matters to the business.",
+    extraSection:
+      "## What to watch\nTwo or three developments likely to matter in the coming weeks, with the reason.",
+    storyChars: 800,
+  },
+];
+
+const promptArgsShape = {
+  audience: z
+    .string()
+    .optional()
+    .describe("Who the digest is for, e.g. \"the platform team\". Each prompt has its own default."),
+  length: z
+    .enum(["short", "medium", "long"])
+    .optional()
+    .describe("\"short\" (3 top stories), \"medium\" (5, default) or \"long\" (10)."),
+  sources: z
+    .string()
+    .optional()
+    .describe(
+      `Comma-separated source ids to include. Defaults to all: ${listSources()
+        .map((s) => s.id)
+        .join(", ")}.`
+    ),
+  since: z
+    .string()
+    .optional()
+    .describe("Start of the window: YYYY-MM-DD, an ISO timestamp or e.g. \"7 days ago\" (default)."),
+};
+
+function instructions(
+  prompt: DigestPrompt,
+  audience: string,
+  length: DigestLength
+): string {
+  const { stories, links, words } = LENGTHS[length];
+  return [
+    `Produce the ${prompt.title} for ${audience}, ${words} long, from the newsletter content below.`,
+    "",
+    prompt.focus,
+    "",
+    "Use exactly this structure:",
+    "",
+    `## Top stories\nThe ${stories} most important stories. For each: a bold headline, two or three sentences on what happened and why it matters, ` +
+      "then a source line in the form `Source: [Newsletter · Issue title](issue URL)` — list every issue that covered it.",
+    "",
+    `## Must-read links\nUp to ${links} links worth opening, each as \`[title](url)\` with one line on why, followed by its source newsletter and issue.`,
+    "",
+    prompt.extraSection,
+    "",
+    "Only use facts from the content below, and keep every link exactly as given. " +
+      "Each story below is one event, already merged across issues and newsletters; its \"Covered by\" list gives the source references.",
+  ].join("\n");
+}
+
+async function buildDigestPrompt(
+  prompt: DigestPrompt,
+  { audience, length, sources: sourceIds, since }: z.infer<z.ZodObject<typeof promptArgsShape>>
+): Promise<GetPromptResult> {
+  const ids = sourceIds
+    ?.split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+  const sources = ids?.length ? ids.map(getSource) : listSources();
+  const window = parseWindow(since ?? "7 days ago", undefined);
+
+  const perSource = await Promise.all(
+    sources.map((source) => fetchPosts(source, source.maxCount, window))
+  );
+  const stories: Story[] = sources.flatMap((source, i) =>
+    perSource[i].flatMap((post) => extractStories(source.id, post))
+  );
+  const clusters = clusterStories(stories).map((cluster) => ({
+    ...cluster,
+    content_markdown: truncateMarkdown(cluster.content_markdown, prompt.storyChars),
+  }));
+
+  const content =
+    stories.length > 0
+      ? formatClusters(
+          sources.map((source, i) => ({ source, postCount: perSource[i].length })),
+          clusters,
+          window
+        )
+      : "No posts were found in this window. Say so instead of writing a digest.";
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: "user",
+        content: {
+          type: "text",
+          text: `${instructions(prompt, audience ?? prompt.defaultAudience, length ?? "medium")}\n\n---\n\n${content}`,
+        },
+      },
+    ],
+  };
+}
+
+export function registerPrompts(server: McpServer): void {
+  for (const prompt of DIGEST_PROMPTS) {
+    server.registerPrompt(
+      prompt.name,
+      {
+        title: prompt.title,
+        description: prompt.description,
+        argsSchema: promptArgsShape,
+      },
+      (args) => buildDigestPrompt(prompt, args)
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import { mkdir, rename, writeFile } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+import { readJson } from "./cache.js";
+import type { PostListing } from "./types.js";
+
+// ─── Read state ──────────────────────────────────────────────────────────────
+// Remembers, per client, the last post acknowledged in each source, so that
+// scheduled digests only see what is new. A client is identified by an
+// explicit `cursor` name or, failing that, its MCP session id (which only
+// lasts as long as the connection — scheduled jobs should pass a cursor).
+// Each cursor is one JSON file:
+//
+//   {dir}/cursors/{cursor}.json   { updated_at, sources: { [id]: ReadMark } }
+//
+//   NEWSLETTER_STATE_DIR   state root (default ~/.local/state/superhuman-newsletter-mcp)
+
+export interface ReadMark {
+  slug: string;
+  // Publication time of the acknowledged post, when known
+  published_at?: string;
+  marked_at: string;
+}
+
+export interface ReadState {
+  updated_at: string;
+  sources: Record<string, ReadMark>;
+}
+
+// Cursor used by stdio clients, which have no session id
+export const DEFAULT_CURSOR = "default";
+
+export function stateDir(): string {
+  return (
+    process.env.NEWSLETTER_STATE_DIR ??
+    join(homedir(), ".local", "state", "superhuman-newsletter-mcp")
+  );
+}
+
+function cursorPath(cursor: string): string {
+  return join(stateDir(), "cursors", `${encodeURIComponent(cursor)}.json`);
+}
+
+export function resolveCursor(cursor: string | undefined, sessionId: string | undefined): string {
+  return cursor?.trim() || sessionId || DEFAULT_CURSOR;
+}
+
+export async function readState(cursor: string): Promise<ReadState> {
+  return (
+    (await readJson<ReadState>(cursorPath(cursor))) ?? {
+      updated_at: new Date().toISOString(),
+      sources: {},
+    }
+  );
+}
+
+// Unlike cache writes, a failed state write fails the call: the client must
+// not believe posts were acknowledged when they weren't.
+async function writeState(cursor: string, state: ReadState): Promise<void> {
+  const path = cursorPath(cursor);
+  await mkdir(join(stateDir(), "cursors"), { recursive: true });
+  const tmp = `${path}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(state, null, 2));
+  await rename(tmp, path);
+}
+
+// Updates within this process are applied one at a time per cursor, so two
+// calls acknowledging different sources don't overwrite each other
+const updates = new Map<string, Promise<unknown>>();
+
+// Records each listing as the newest consumed post of its source, or clears
+// the source's mark when the listing is undefined.
+export function markRead(
+  cursor: string,
+  marks: { sourceId: string; listing?: Pick<PostListing, "slug" | "published_at"> }[]
+): Promise<ReadState> {
+  const update = async () => {
+    const state = await readState(cursor);
+    const now = new Date().toISOString();
+    for (const { sourceId, listing } of marks) {
+      if (listing) {
+        state.sources[sourceId] = {
+          slug: listing.slug,
+          published_at: listing.published_at,
+          marked_at: now,
+        };
+      } else {
+        delete state.sources[sourceId];
+      }
+    }
+    state.updated_at = now;
+    await writeState(cursor, state);
+    return state;
+  };
+
+  const previous = updates.get(cursor) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(update);
+  updates.set(cursor, next);
+  void next.finally(() => {
+    if (updates.get(cursor) === next) updates.delete(cursor);
+  }).catch(() => undefined);
+  return next;
+}
+
+// Listings (newest first) that come after the mark: everything listed before
+// the acknowledged slug, and nothing published at or before it.
+export function unreadListings<T extends PostListing>(listings: T[], mark: ReadMark): T[] {
+  const markedIndex = listings.findIndex((listing) => listing.slug === mark.slug);
+  const candidates = markedIndex >= 0 ? listings.slice(0, markedIndex) : listings;
+  if (!mark.published_at) return candidates;
+  const markedAt = new Date(mark.published_at);
+  return candidates.filter(
+    (listing) => !listing.published_at || new Date(listing.published_at) > markedAt
+  );
+}
+
+// The `limit` oldest unread listings (still newest first), and how many newer
+// unread ones are left for a later call. Taking the oldest means that
+// acknowledging the newest returned post never skips one that wasn't returned.
+export function nextUnread<T extends PostListing>(
+  listings: T[],
+  mark: ReadMark,
+  limit: number
+): { listings: T[]; remaining: number } {
+  const unread = unreadListings(listings, mark);
+  const start = Math.max(0, unread.length - limit);
+  return { listings: unread.slice(start), remaining: start };
+}
@@ -0,0 +1,152 @@
+import {
+  ResourceTemplate,
+  type McpServer,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ListResourcesResult } from "@modelcontextprotocol/sdk/types.js";
+import { formatArchive, formatDigest } from "./format.js";
+import { log } from "./logger.js";
+import { collectListings, fetchPost } from "./scraper.js";
+import { getSource, listSources, type NewsletterSource } from "./sources.js";
+import type { PostListing } from "./types.js";
+
+// ─── MCP resources ───────────────────────────────────────────────────────────
+// Posts and archives are also exposed as resources, so a client can attach one
+// issue to a conversation or browse the archive without running a digest:
+//
+//   newsletter://{source}/archive         the source's recent posts, as links
+//   newsletter://{source}/posts/{slug}    one post as markdown
+//
+// Both read through the same cache as the tools.
+
+export function archiveUri(sourceId: string): string {
+  return `newsletter://${sourceId}/archive`;
+}
+
+export function postUri(sourceId: string, slug: string): string {
+  return `newsletter://${sourceId}/posts/${encodeURIComponent(slug)}`;
+}
+
+// Template variables arrive as strings, or arrays for exploded variables
+function variable(value: string | string[]): string {
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+function archiveListings(source: NewsletterSource): Promise<PostListing[]> {
+  return collectListings(source, source.maxCount);
+}
+
+// Lists the archive of every source; a source whose archive can't be fetched
+// is left out rather than failing the whole listing.
+async function listPostResources(): Promise<ListResourcesResult> {
+  const perSource = await Promise.all(
+    listSources().map(async (source) => {
+      try {
+        return { source, listings: await archiveListings(source) };
+      } catch (err) {
+        log.warn("could not list posts for resources", { source: source.id, err });
+        return { source, listings: [] };
+      }
+    })
+  );
+
+  return {
+    resources: perSource.flatMap(({ source, listings }) =>
+      listings.map((listing) => ({
+        uri: postUri(source.id, listing.slug),
+        name: listing.title,
+        description: `${source.name}${listing.date ? ` — ${listing.date}` : ""}`,
+        mimeType: "text/markdown",
+      }))
+    ),
+  };
+}
+
+function completeSource(value: string): string[] {
+  return listSources()
+    .map((s) => s.id)
+    .filter((id) => id.startsWith(value));
+}
+
+async function completeSlug(
+  value: string,
+  context?: { arguments?: Record<string, string> }
+): Promise<string[]> {
+  const sourceId = context?.arguments?.source;
+  if (!sourceId) return [];
+  try {
+    const listings = await archiveListings(getSource(sourceId));
+    return listings.map((l) => l.slug).filter((slug) => slug.startsWith(value));
+  } catch {
+    return [];
+  }
+}
+
+export function registerResources(server: McpServer): void {
+  server.registerResource(
+    "newsletter-archive",
+    new ResourceTemplate("newsletter://{source}/archive", {
+      list: async () => ({
+        resources: listSources().map((source) => ({
+          uri: archiveUri(source.id),
+          name: `${source.name} archive`,
+          description: `Most recent ${source.name} posts, with links to each post resource`,
+          mimeType: "text/markdown",
+        })),
+      }),
+      complete: { source: completeSource },
+    }),
+    {
+      title: "Newsletter Archive",
+      description:
+        "The most recent posts of a newsletter source — title, date, post URL and the " +
+        "newsletter://{source}/posts/{slug} resource for each.",
+      mimeType: "text/markdown",
+    },
+    async (uri, { source: sourceId }) => {
+      const source = getSource(variable(sourceId));
+      const listings = await archiveListings(source);
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "text/markdown",
+            text: formatArchive(
+              source,
+              listings.map((listing) => ({
+                ...listing,
+                resource: postUri(source.id, listing.slug),
+              }))
+            ),
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerResource(
+    "newsletter-post",
+    new ResourceTemplate("newsletter://{source}/posts/{slug}", {
+      list: listPostResources,
+      complete: { source: completeSource, slug: completeSlug },
+    }),
+    {
+      title: "Newsletter Post",
+      description:
+        "One newsletter post in full: title, date, author, body, images and external links.",
+      mimeType: "text/markdown",
+    },
+    async (uri, { source: sourceId, slug }) => {
+      const source = getSource(variable(sourceId));
+      const post = await fetchPost(source, variable(slug));
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "text/markdown",
+            text: formatDigest(source, [post], { heading: post.title }),
+          },
+        ],
+      };
+    }
+  );
+}
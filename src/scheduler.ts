@@ -0,0 +1,377 @@
+import { createHmac, randomUUID } from "crypto";
+import { mkdir, rename, writeFile } from "fs/promises";
+import { join } from "path";
+import { readJson } from "./cache.js";
+import { log } from "./logger.js";
+import { newPostsDetected, webhookDeliveries } from "./metrics.js";
+import { stateDir } from "./readstate.js";
+import { collectListings, scrapePosts } from "./scraper.js";
+import { sessionServers } from "./sessions.js";
+import { getSource, listSources, type NewsletterSource } from "./sources.js";
+import type { PostContent, PostListing } from "./types.js";
+
+// ─── New post push ───────────────────────────────────────────────────────────
+// In HTTP mode an optional scheduler polls each source's listing every
+// NEWSLETTER_POLL_INTERVAL_SECONDS (bypassing the listing cache) and looks for
+// slugs it hasn't seen before. Each new post is scraped, POSTed as a signed
+// JSON payload to every webhook URL, and announced to connected MCP sessions
+// with notifications/resources/list_changed (the post resources changed).
+//
+// The first poll of a source only records what is already listed, so turning
+// the scheduler on doesn't replay the archive. Later polls page further back
+// until they reach a post they have seen, so a burst of posts between polls
+// is announced in full. Seen slugs are kept in
+// {state dir}/scheduler.json across restarts. A new post whose page can't be
+// fetched stays unseen and is tried again at the next poll.
+//
+// Payload: { event: "post.published", delivery_id, source, source_name, text, post }
+// `text` is a one-line summary, so Slack-compatible incoming webhooks show it
+// as the message. With a secret, each request carries
+//
+//   X-Newsletter-Timestamp   unix seconds
+//   X-Newsletter-Signature   sha256=HMAC-SHA256(secret, "{timestamp}.{body}") in hex
+//
+// and receivers should also reject stale timestamps. A failed delivery
+// (network error or non-2xx status) is retried after the retry delay, doubled
+// on each attempt. Retries are held in memory only.
+//
+//   NEWSLETTER_POLL_INTERVAL_SECONDS  enables the scheduler (minimum 60)
+//   NEWSLETTER_POLL_SOURCES           comma-separated source ids to watch (default all)
+//   NEWSLETTER_WEBHOOK_URLS           comma-separated webhook URLs
+//   NEWSLETTER_WEBHOOK_SECRET         HMAC key for the signature (unsigned without one)
+//   NEWSLETTER_WEBHOOK_RETRIES        retries after a failed delivery (default 5)
+//   NEWSLETTER_WEBHOOK_RETRY_SECONDS  delay before the first retry (default 30)
+
+const MIN_INTERVAL_SECONDS = 60;
+const DEFAULT_RETRIES = 5;
+const DEFAULT_RETRY_SECONDS = 30;
+const DELIVERY_TIMEOUT_MS = 10_000;
+// Slugs remembered per source; listings never reach back this far
+const MAX_SEEN = 200;
+
+export interface SchedulerConfig {
+  intervalSeconds: number;
+  sources: NewsletterSource[];
+  webhooks: string[];
+  secret?: string;
+  retries: number;
+  retrySeconds: number;
+}
+
+interface SchedulerState {
+  updated_at: string;
+  sources: Record<string, { seen: string[]; checked_at: string }>;
+}
+
+export interface WebhookPayload {
+  event: "post.published";
+  delivery_id: string;
+  source: string;
+  source_name: string;
+  text: string;
+  post: PostContent;
+}
+
+interface Delivery {
+  id: string;
+  url: string;
+  // Logged instead of the URL, which often embeds a secret (Slack, Discord)
+  host: string;
+  body: string;
+  source: string;
+  slug: string;
+  attempts: number;
+}
+
+function envInt(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+function list(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+// undefined when NEWSLETTER_POLL_INTERVAL_SECONDS isn't set. Bad URLs and
+// unknown source ids throw, so a misconfigured deployment fails at startup.
+export function loadSchedulerConfig(): SchedulerConfig | undefined {
+  const interval = Number(process.env.NEWSLETTER_POLL_INTERVAL_SECONDS);
+  if (!process.env.NEWSLETTER_POLL_INTERVAL_SECONDS || !Number.isFinite(interval) || interval <= 0) {
+    return undefined;
+  }
+
+  const webhooks = list(process.env.NEWSLETTER_WEBHOOK_URLS);
+  for (const url of webhooks) {
+    if (!URL.canParse(url) || !/^https?:$/.test(new URL(url).protocol)) {
+      throw new Error(`NEWSLETTER_WEBHOOK_URLS: ${url} is not an http(s) URL`);
+    }
+  }
+  const ids = list(process.env.NEWSLETTER_POLL_SOURCES);
+
+  return {
+    intervalSeconds: Math.max(interval, MIN_INTERVAL_SECONDS),
+    sources: ids.length > 0 ? ids.map(getSource) : listSources(),
+    webhooks,
+    secret: process.env.NEWSLETTER_WEBHOOK_SECRET || undefined,
+    retries: envInt("NEWSLETTER_WEBHOOK_RETRIES", DEFAULT_RETRIES),
+    retrySeconds: envInt("NEWSLETTER_WEBHOOK_RETRY_SECONDS", DEFAULT_RETRY_SECONDS),
+  };
+}
+
+// ─── State ───────────────────────────────────────────────────────────────────
+
+function statePath(): string {
+  return join(stateDir(), "scheduler.json");
+}
+
+async function readSchedulerState(): Promise<SchedulerState> {
+  return (
+    (await readJson<SchedulerState>(statePath())) ?? {
+      updated_at: new Date().toISOString(),
+      sources: {},
+    }
+  );
+}
+
+async function writeSchedulerState(state: SchedulerState): Promise<void> {
+  const path = statePath();
+  await mkdir(stateDir(), { recursive: true });
+  const tmp = `${path}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(state, null, 2));
+  await rename(tmp, path);
+}
+
+// Listings (newest first) whose slug isn't among the seen ones
+export function unseenListings(listings: PostListing[], seen: string[]): PostListing[] {
+  const known = new Set(seen);
+  return listings.filter((listing) => !known.has(listing.slug));
+}
+
+// ─── Webhooks ────────────────────────────────────────────────────────────────
+
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+// Slack mrkdwn control characters. `|` ends a link's URL and has no escape,
+// so it is replaced: by %7C in URLs and by a lookalike in labels.
+function slackEscape(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function slackLink(url: string, label: string): string {
+  return `<${slackEscape(url).replace(/\|/g, "%7C")}|${slackEscape(label).replace(/\|/g, "\u2223")}>`;
+}
+
+export function webhookPayload(source: NewsletterSource, post: PostContent): WebhookPayload {
+  const subtitle = post.subtitle ? ` — ${slackEscape(post.subtitle)}` : "";
+  return {
+    event: "post.published",
+    delivery_id: randomUUID(),
+    source: source.id,
+    source_name: source.name,
+    text: `New ${slackEscape(source.name)} issue: ${slackLink(post.url, post.title)}${subtitle}`,
+    post,
+  };
+}
+
+const stats = {
+  last_poll_at: undefined as string | undefined,
+  new_posts: 0,
+  delivered: 0,
+  retried: 0,
+  failed: 0,
+};
+const pending = new Set<Delivery>();
+
+async function deliver(config: SchedulerConfig, delivery: Delivery): Promise<void> {
+  delivery.attempts++;
+  try {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "User-Agent": "superhuman-newsletter-mcp",
+      "X-Newsletter-Event": "post.published",
+      "X-Newsletter-Delivery": delivery.id,
+      "X-Newsletter-Timestamp": timestamp,
+    };
+    if (config.secret) {
+      headers["X-Newsletter-Signature"] = `sha256=${signPayload(config.secret, timestamp, delivery.body)}`;
+    }
+    const res = await fetch(delivery.url, {
+      method: "POST",
+      headers,
+      body: delivery.body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    await res.body?.cancel();
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+
+    pending.delete(delivery);
+    stats.delivered++;
+    webhookDeliveries.inc({ result: "delivered" });
+    log.info("webhook delivered", { host: delivery.host, slug: delivery.slug, attempts: delivery.attempts });
+  } catch (err) {
+    const fields = { host: delivery.host, slug: delivery.slug, attempts: delivery.attempts, err };
+    if (delivery.attempts > config.retries) {
+      pending.delete(delivery);
+      stats.failed++;
+      webhookDeliveries.inc({ result: "failed" });
+      log.error("webhook delivery failed", fields);
+      return;
+    }
+    stats.retried++;
+    webhookDeliveries.inc({ result: "retry" });
+    const delayMs = config.retrySeconds * 1000 * 2 ** (delivery.attempts - 1);
+    log.warn("webhook delivery failed, will retry", { ...fields, retry_in_seconds: delayMs / 1000 });
+    setTimeout(() => void deliver(config, delivery), delayMs).unref();
+  }
+}
+
+function enqueue(config: SchedulerConfig, source: NewsletterSource, post: PostContent): void {
+  for (const url of config.webhooks) {
+    const payload = webhookPayload(source, post);
+    const delivery: Delivery = {
+      id: payload.delivery_id,
+      url,
+      host: new URL(url).host,
+      body: JSON.stringify(payload),
+      source: source.id,
+      slug: post.slug,
+      attempts: 0,
+    };
+    pending.add(delivery);
+    void deliver(config, delivery);
+  }
+}
+
+// Tells every connected session that the post resources changed
+function notifySessions(): void {
+  for (const server of sessionServers()) {
+    try {
+      server.sendResourceListChanged();
+    } catch (err) {
+      log.warn("could not notify session", { err });
+    }
+  }
+}
+
+// ─── Polling ─────────────────────────────────────────────────────────────────
+
+// Newest listings of a source, reaching back to a seen slug when there is
+// one. The first page is refetched; further pages come from the listing cache
+// when it is fresh.
+async function listSinceSeen(source: NewsletterSource, seen: string[]): Promise<PostListing[]> {
+  let count = source.defaultCount;
+  let listings = await collectListings(source, count, {}, { refresh: true });
+  while (
+    seen.length > 0 &&
+    listings.length === count &&
+    count < MAX_SEEN &&
+    unseenListings(listings, seen).length === listings.length
+  ) {
+    count = Math.min(count * 2, MAX_SEEN);
+    listings = await collectListings(source, count);
+  }
+  return listings;
+}
+
+// New posts of one source, oldest first; updates the source's entry in state
+async function pollSource(
+  source: NewsletterSource,
+  state: SchedulerState
+): Promise<PostContent[]> {
+  const entry = state.sources[source.id];
+  const listings = await listSinceSeen(source, entry?.seen ?? []);
+  const checkedAt = new Date().toISOString();
+
+  if (!entry) {
+    // An empty listing is more likely an outage than a new source; don't let
+    // it become the baseline, or the next poll would report everything
+    if (listings.length > 0) {
+      state.sources[source.id] = { seen: listings.map((l) => l.slug), checked_at: checkedAt };
+      log.info("scheduler baseline recorded", { source: source.id, posts: listings.length });
+    }
+    return [];
+  }
+
+  entry.checked_at = checkedAt;
+  const unseen = unseenListings(listings, entry.seen);
+  if (unseen.length === 0) return [];
+
+  const posts = (await scrapePosts(source, unseen)).filter((post) => !post.fetch_error);
+  entry.seen = [...posts.map((post) => post.slug), ...entry.seen].slice(0, MAX_SEEN);
+  return posts.reverse();
+}
+
+let polling = false;
+
+// Polls every watched source once; returns the number of new posts. A poll
+// still running when the next one is due is not overlapped.
+export async function pollSources(config: SchedulerConfig): Promise<number> {
+  if (polling) return 0;
+  polling = true;
+  try {
+    const state = await readSchedulerState();
+    let found = 0;
+    for (const source of config.sources) {
+      let posts: PostContent[];
+      try {
+        posts = await pollSource(source, state);
+      } catch (err) {
+        log.warn("scheduler poll failed", { source: source.id, err });
+        continue;
+      }
+      for (const post of posts) {
+        log.info("new post", { source: source.id, slug: post.slug, title: post.title });
+        newPostsDetected.inc({ source: source.id });
+        enqueue(config, source, post);
+      }
+      found += posts.length;
+    }
+
+    state.updated_at = new Date().toISOString();
+    await writeSchedulerState(state);
+    stats.last_poll_at = state.updated_at;
+    stats.new_posts += found;
+    if (found > 0) notifySessions();
+    return found;
+  } finally {
+    polling = false;
+  }
+}
+
+let active: SchedulerConfig | undefined;
+
+// Starts polling when NEWSLETTER_POLL_INTERVAL_SECONDS is set (HTTP mode)
+export function startScheduler(): void {
+  const config = loadSchedulerConfig();
+  if (!config) return;
+  active = config;
+  log.info("scheduler started", {
+    interval_seconds: config.intervalSeconds,
+    sources: config.sources.map((s) => s.id),
+    webhooks: config.webhooks.length,
+  });
+
+  const run = () => {
+    pollSources(config).catch((err) => log.error("scheduler poll failed", { err }));
+  };
+  run();
+  setInterval(run, config.intervalSeconds * 1000).unref();
+}
+
+// For /health; undefined when the scheduler is off
+export function schedulerStats() {
+  if (!active) return undefined;
+  return {
+    interval_seconds: active.intervalSeconds,
+    sources: active.sources.map((s) => s.id),
+    webhooks: active.webhooks.length,
+    ...stats,
+    pending_deliveries: pending.size,
+  };
+}
@@ -0,0 +1,275 @@
+import { z } from "zod";
+
+// ─── Output schemas ──────────────────────────────────────────────────────────
+// Declared as tool output schemas so clients can read results from
+// `structuredContent` instead of re-parsing the markdown digest. These mirror
+// the PostContent / PostSection / CacheStats interfaces field for field.
+
+const linkSchema = z.object({
+  text: z.string(),
+  url: z.string(),
+  original_url: z
+    .string()
+    .optional()
+    .describe("The link as it appeared in the post, when enrichment resolved it elsewhere"),
+  domain: z.string().optional(),
+  title: z.string().optional().describe("Destination page title (enrich_links: \"metadata\")"),
+  description: z.string().optional(),
+});
+
+const citedLinkSchema = z.object({
+  url: z.string(),
+  domain: z.string(),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  texts: z.array(z.string()).describe("Link texts the posts used for it"),
+  citations: z.number().describe("Number of posts linking to it"),
+  posts: z.array(z.object({ title: z.string(), url: z.string() })),
+});
+
+const topLinksSchema = z
+  .array(citedLinkSchema)
+  .optional()
+  .describe("Destinations linked from more than one post, most-cited first (with enrich_links)");
+
+const tagsSchema = z
+  .object({
+    topics: z.array(z.string()).describe("Topic ids, e.g. \"models\", \"funding\""),
+    entities: z
+      .array(
+        z.object({
+          id: z.string(),
+          name: z.string(),
+          type: z.enum(["company", "product", "model"]),
+        })
+      )
+      .describe("Companies, products and models mentioned, most mentioned first"),
+  })
+  .optional()
+  .describe("Topics and entities found by tagging");
+
+export const postSectionSchema = z.object({
+  type: z
+    .enum(["intro", "story", "tools", "quick_hits", "prompt"])
+    .describe("Section kind, classified from its heading"),
+  heading: z.string(),
+  content_markdown: z.string(),
+  links: z.array(linkSchema).describe("External links inside this section only"),
+  tags: tagsSchema,
+});
+
+export const postContentSchema = z.object({
+  title: z.string(),
+  date: z.string().describe("Display date, e.g. \"February 21, 2026\""),
+  published_at: z
+    .string()
+    .optional()
+    .describe("ISO timestamp of publication, when known"),
+  url: z.string(),
+  slug: z.string(),
+  guid: z.string().optional().describe("Feed GUID, when the post was listed from the RSS/Atom feed"),
+  author: z.string(),
+  subtitle: z.string(),
+  content_markdown: z.string(),
+  external_links: z.array(linkSchema),
+  sections: z.array(postSectionSchema),
+  featured_image: z.string().optional(),
+  tags: tagsSchema,
+  fetch_error: z
+    .object({ message: z.string(), attempts: z.number() })
+    .optional()
+    .describe("Present when the post page could not be fetched; the body is a placeholder"),
+});
+
+const filterSchema = z
+  .object({ topics: z.array(z.string()).optional(), entities: z.array(z.string()).optional() })
+  .optional()
+  .describe("The topics/entities filter, when the results were narrowed to matching stories");
+
+const cacheCounterSchema = z.object({ hits: z.number(), misses: z.number() });
+
+export const digestOutputShape = {
+  source: z.string().describe("Source id the posts were fetched from"),
+  source_name: z.string(),
+  fetched_at: z.string().describe("ISO timestamp of this fetch"),
+  since: z.string().optional().describe("ISO start of the date window, if any"),
+  until: z.string().optional().describe("ISO end of the date window, if any"),
+  filter: filterSchema,
+  posts: z.array(postContentSchema),
+  cache: z.object({
+    posts: cacheCounterSchema.extend({ from_feed: z.number() }),
+    listings: cacheCounterSchema,
+  }),
+  output: z
+    .object({
+      detail: z.enum(["full", "summary", "headlines"]),
+      images_stripped: z.boolean(),
+      max_chars: z.number().optional(),
+      trimmed_posts: z.number().describe("Posts whose body was cut to fit the budget"),
+      chars_cut: z.number(),
+      links_dropped: z.boolean(),
+    })
+    .describe("How post bodies were shaped: detail level, images and budget trimming"),
+  top_links: topLinksSchema,
+};
+
+export type DigestOutput = z.infer<z.ZodObject<typeof digestOutputShape>>;
+
+export const searchOutputShape = {
+  query: z.string(),
+  indexed_posts: z.number().describe("Number of posts searched"),
+  results: z.array(
+    z.object({
+      source: z.string(),
+      title: z.string(),
+      date: z.string(),
+      published_at: z.string().optional(),
+      url: z.string(),
+      score: z.number(),
+      snippet: z.string(),
+    })
+  ),
+};
+
+export type SearchOutput = z.infer<z.ZodObject<typeof searchOutputShape>>;
+
+export const clusterOutputShape = {
+  sources: z.array(z.string()).describe("Source ids that were fetched"),
+  fetched_at: z.string(),
+  since: z.string().optional(),
+  until: z.string().optional(),
+  filter: filterSchema,
+  post_count: z.number(),
+  story_count: z.number(),
+  top_links: topLinksSchema,
+  clusters: z.array(
+    z.object({
+      headline: z.string(),
+      content_markdown: z
+        .string()
+        .describe("Text of the most detailed story in the cluster"),
+      sources: z.array(z.string()),
+      links: z.array(linkSchema).describe("Links from every story, deduplicated"),
+      tags: tagsSchema,
+      mentions: z.array(
+        z.object({
+          source: z.string(),
+          post_title: z.string(),
+          post_url: z.string(),
+          date: z.string(),
+          heading: z.string(),
+        })
+      ),
+    })
+  ),
+};
+
+export type ClusterOutput = z.infer<z.ZodObject<typeof clusterOutputShape>>;
+
+export const newPostsOutputShape = {
+  cursor: z.string().describe("Read-state cursor the posts were checked against"),
+  fetched_at: z.string(),
+  acknowledged: z.boolean().describe("Whether the returned posts were marked as read"),
+  sources: z.array(
+    z.object({
+      source: z.string(),
+      source_name: z.string(),
+      previous_mark: z
+        .object({ slug: z.string(), published_at: z.string().optional() })
+        .optional()
+        .describe("Last acknowledged post before this call; absent on a first run"),
+      acknowledged_slug: z
+        .string()
+        .optional()
+        .describe("Post now marked as read, when acknowledge was set"),
+      remaining: z
+        .number()
+        .describe("Newer unread posts left out by max_posts; they come back on the next call"),
+      posts: z.array(postContentSchema).describe("New posts, newest first"),
+    })
+  ),
+};
+
+export type NewPostsOutput = z.infer<z.ZodObject<typeof newPostsOutputShape>>;
+
+const healthStatusSchema = z.enum(["pass", "degraded", "fail"]);
+
+export const checkSourcesOutputShape = {
+  checked_at: z.string(),
+  status: healthStatusSchema.describe("Worst status across the checked sources"),
+  sources: z.array(
+    z.object({
+      source: z.string(),
+      source_name: z.string(),
+      status: healthStatusSchema,
+      checked_at: z.string().describe("When this source was last scraped for the check"),
+      listings: z.number().describe("Posts found on the first listing page"),
+      feed_entries: z.number().optional(),
+      sample_post: z
+        .object({
+          title: z.string(),
+          url: z.string(),
+          body_chars: z.number(),
+          links: z.number(),
+        })
+        .optional()
+        .describe("The newest post, scraped and validated"),
+      reasons: z.array(
+        z.object({
+          status: z.enum(["degraded", "fail"]),
+          check: z.string(),
+          message: z.string(),
+        })
+      ),
+    })
+  ),
+};
+
+export type CheckSourcesOutput = z.infer<z.ZodObject<typeof checkSourcesOutputShape>>;
+
+export const exportOutputShape = {
+  format: z.enum(["html", "obsidian", "epub"]),
+  title: z.string(),
+  directory: z.string().describe("Directory the files were written under"),
+  post_count: z.number(),
+  skipped_posts: z
+    .array(z.object({ title: z.string(), url: z.string(), error: z.string() }))
+    .describe("Posts left out because their page could not be fetched"),
+  files: z.array(
+    z.object({
+      path: z.string().describe("Absolute path of the written file"),
+      bytes: z.number(),
+    })
+  ),
+};
+
+export type ExportOutput = z.infer<z.ZodObject<typeof exportOutputShape>>;
+
+const trendingTagSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  counts: z.array(z.number()).describe("Stories tagged in each week, oldest first"),
+  change: z.number().describe("Latest week minus the week before"),
+  trend: z.enum(["new", "rising", "falling", "steady"]),
+});
+
+export const trendingOutputShape = {
+  sources: z.array(z.string()).describe("Source ids that were fetched"),
+  fetched_at: z.string(),
+  weeks: z
+    .array(
+      z.object({
+        since: z.string(),
+        until: z.string(),
+        posts: z.number(),
+        stories: z.number(),
+      })
+    )
+    .describe("The compared weeks, oldest first"),
+  topics: z.array(trendingTagSchema).describe("Every topic, by the latest week's count"),
+  entities: z
+    .array(trendingTagSchema.extend({ type: z.enum(["company", "product", "model"]) }))
+    .describe("Most mentioned companies, products and models in the latest week"),
+};
+
+export type TrendingOutput = z.infer<z.ZodObject<typeof trendingOutputShape>>;
@@ -0,0 +1,574 @@
+import { parse, type HTMLElement } from "node-html-parser";
+import TurndownService from "turndown";
+import {
+  readCachedListings,
+  readCachedPost,
+  writeCachedListings,
+  writeCachedPost,
+  type CacheStats,
+} from "./cache.js";
+import {
+  formatDate,
+  hasWindow,
+  inWindow,
+  parseListingDate,
+  type DateWindow,
+} from "./dates.js";
+import { fetchFeed, type FeedEntry } from "./feed.js";
+import {
+  FetchError,
+  fetchConcurrency,
+  fetchHtml,
+  mapConcurrent,
+} from "./fetcher.js";
+import { log } from "./logger.js";
+import { postsScraped } from "./metrics.js";
+import { parseSections } from "./sections.js";
+import { sourceHost, type NewsletterSource } from "./sources.js";
+import type { PostContent, PostLink, PostListing } from "./types.js";
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+// Safety net for date-window fetches that never reach an old enough post
+const MAX_ARCHIVE_PAGES = 20;
+
+const SPONSOR_PATTERNS = [/presented by/i, /sponsored by/i, /advertisement/i];
+
+// Share/intent links that appear in every Beehiiv footer
+const SHARE_LINK_PATTERNS = [
+  "beehiiv.com",
+  "twitter.com/intent",
+  "facebook.com/sharer",
+  "linkedin.com/sharing",
+];
+
+export interface ScrapeOptions {
+  // Ignore cached listing pages and posts (fresh results are still cached)
+  refresh?: boolean;
+  // Cache hit/miss counters, updated in place
+  stats?: CacheStats;
+}
+
+// ─── HTML → Markdown converter ────────────────────────────────────────────────
+
+const turndown = new TurndownService({
+  headingStyle: "atx",
+  codeBlockStyle: "fenced",
+  bulletListMarker: "-",
+});
+
+turndown.addRule("images", {
+  filter: "img",
+  replacement: (_content, node) => {
+    const el = node as { getAttribute: (name: string) => string | null };
+    const src = el.getAttribute("src") ?? "";
+    const alt = el.getAttribute("alt") ?? "";
+    if (!src) return "";
+    return `![${alt}](${src})\n`;
+  },
+});
+
+// Remove empty links that turndown would otherwise keep as bare brackets
+turndown.addRule("emptyLinks", {
+  filter: (node) =>
+    node.nodeName === "A" &&
+    !(node as { textContent?: string }).textContent?.trim(),
+  replacement: () => "",
+});
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+// True for links that point off-site: not anchors, not the source's own host
+// or excluded domains, and not Beehiiv share/intent links.
+export function isExternalLink(source: NewsletterSource, href: string): boolean {
+  if (!href || href.startsWith("#")) return false;
+  return ![
+    sourceHost(source),
+    ...source.excludedDomains,
+    ...SHARE_LINK_PATTERNS,
+  ].some((pattern) => href.includes(pattern));
+}
+
+// Strips noise and sponsor blocks from a post body, then converts it to
+// markdown and collects its external links. Shared by the page scraper and
+// feed entries that carry the full post HTML.
+function convertBody(
+  source: NewsletterSource,
+  contentEl: HTMLElement
+): { markdown: string; externalLinks: PostLink[] } {
+  // Strip noise elements
+  for (const sel of source.noiseSelectors) {
+    for (const el of contentEl.querySelectorAll(sel)) {
+      el.remove();
+    }
+  }
+
+  // Strip sponsor/ad sections (remove the element whose text matches)
+  for (const el of contentEl.querySelectorAll(source.sponsorSelector)) {
+    if (SPONSOR_PATTERNS.some((p) => p.test(el.text ?? ""))) {
+      el.remove();
+    }
+  }
+
+  // ── Convert HTML → Markdown ───────────────────────────────────────────────
+  let markdown = turndown.turndown(contentEl.innerHTML);
+  markdown = markdown.replace(/\n{3,}/g, "\n\n").trim();
+
+  // ── Collect external links ────────────────────────────────────────────────
+  const seenLinks = new Set<string>();
+  const externalLinks: PostLink[] = [];
+
+  for (const a of contentEl.querySelectorAll("a[href]")) {
+    const href = a.getAttribute("href") ?? "";
+    const text = a.text?.trim() ?? "";
+    if (isExternalLink(source, href) && text && !seenLinks.has(href)) {
+      seenLinks.add(href);
+      externalLinks.push({ text, url: href });
+    }
+  }
+
+  return { markdown, externalLinks };
+}
+
+// ─── Step 1: Scrape post listing ──────────────────────────────────────────────
+// Fetches the source's first listing page (page 1) or archive pages (?page=N)
+// and extracts the list of post slugs, titles, and dates. Beehiiv themes render
+// post cards in one of two layouts (see NewsletterSource.archive.layout); in
+// both, several <a> elements can point to the same href, so we deduplicate.
+// Sources with an RSS/Atom feed are listed from the feed first (see feed.ts).
+// Parsing is kept apart from fetching (parseListings/parsePost) so the
+// scrapers can be run against saved pages; see test/fixtures.
+
+export function listingPageUrl(source: NewsletterSource, page: number): string {
+  if (page === 1) {
+    return source.archive.firstPage === "/"
+      ? source.baseUrl
+      : `${source.baseUrl}${source.archive.firstPage}`;
+  }
+  return `${source.baseUrl}/archive?page=${page}`;
+}
+
+// Extracts the post listings from a listing page's HTML. `now` resolves
+// relative card dates ("3 hours ago").
+export function parseListings(
+  source: NewsletterSource,
+  html: string,
+  now: Date = new Date()
+): PostListing[] {
+  const root = parse(html);
+
+  const seen = new Set<string>();
+  const listings: PostListing[] = [];
+
+  for (const link of root.querySelectorAll('a[href^="/p/"]')) {
+    const href = link.getAttribute("href") ?? "";
+    if (!href.startsWith("/p/") || seen.has(href)) continue;
+    seen.add(href);
+
+    const slug = href.slice(3); // strip leading "/p/"
+    const postUrl = `${source.baseUrl}${href}`;
+
+    let title: string;
+    let rawDate: string;
+
+    if (source.archive.layout === "links") {
+      // The <a> itself is the card: <h3> title + <p> date
+      title = link.querySelector("h3")?.text?.trim() || slug.replace(/-/g, " ");
+      rawDate = link.querySelector("p")?.text?.trim() ?? "";
+    } else {
+      // The card container is 2 levels up from the <a> (a > div.relative > div.card)
+      const card = link.parentNode?.parentNode;
+
+      // Title from <h2> anywhere in the card, or fall back to img alt (an
+      // empty heading counts as missing)
+      title =
+        card?.querySelector("h2")?.text?.trim() ||
+        card?.querySelector("img")?.getAttribute("alt")?.trim() ||
+        slug.replace(/-/g, " ");
+
+      // Date from the first <span> in the card (shows "Feb 21, 2026" or "3 hours ago")
+      rawDate = card?.querySelector("span")?.text?.trim() ?? "";
+    }
+
+    listings.push({
+      title,
+      date: rawDate,
+      published_at: parseListingDate(rawDate, now)?.toISOString(),
+      url: postUrl,
+      slug,
+    });
+  }
+
+  return listings;
+}
+
+export async function scrapeListings(
+  source: NewsletterSource,
+  page = 1
+): Promise<PostListing[]> {
+  return parseListings(source, await fetchHtml(listingPageUrl(source, page)));
+}
+
+// Cache-aware wrapper around scrapeListings. Listing pages expire after the
+// listing TTL (see cache.ts).
+async function cachedListings(
+  source: NewsletterSource,
+  page: number,
+  { refresh, stats }: ScrapeOptions
+): Promise<PostListing[]> {
+  if (!refresh) {
+    const cached = await readCachedListings(source, page);
+    if (cached) {
+      if (stats) stats.listings.hits++;
+      return cached;
+    }
+  }
+  if (stats) stats.listings.misses++;
+
+  const listings = await scrapeListings(source, page);
+  if (listings.length > 0) await writeCachedListings(source, page, listings);
+  return listings;
+}
+
+// Feed entries that carry the full post HTML, by source id and post URL.
+// Replaced whenever a source's feed is fetched, so scrapePosts can build those
+// posts without a request and only the latest feed is held in memory.
+const feedContent = new Map<string, Map<string, FeedEntry>>();
+
+// Cache-aware feed listing. An empty result is cached too when the source has
+// no feed, so it isn't re-checked on every call; after a temporary failure
+// nothing is cached and the next call tries the feed again.
+async function cachedFeed(
+  source: NewsletterSource,
+  { refresh, stats }: ScrapeOptions
+): Promise<PostListing[]> {
+  if (!source.feed) return [];
+  if (!refresh) {
+    const cached = await readCachedListings(source, "feed");
+    if (cached) {
+      if (stats) stats.listings.hits++;
+      return cached;
+    }
+  }
+  if (stats) stats.listings.misses++;
+
+  const { entries, transient } = await fetchFeed(source);
+  if (!transient) {
+    feedContent.set(
+      source.id,
+      new Map(entries.filter((entry) => entry.content_html).map((entry) => [entry.url, entry]))
+    );
+  }
+  const listings: PostListing[] = entries.map(
+    ({ title, date, published_at, url, slug, guid }) => ({
+      title,
+      date,
+      published_at,
+      url,
+      slug,
+      guid,
+    })
+  );
+  if (!transient) await writeCachedListings(source, "feed", listings);
+  return listings;
+}
+
+// Lists the feed, then pages through the archive until `count` posts are
+// collected (a post listed by both is kept once). With a date window, posts
+// outside it are skipped and paging stops once a page ends with a post older
+// than `since` (listings run newest first). Posts whose date can't be parsed
+// are kept; they are checked again against the JSON-LD date once their
+// content is fetched (see filterByWindow).
+export async function collectListings(
+  source: NewsletterSource,
+  count: number,
+  window: DateWindow = {},
+  options: ScrapeOptions = {}
+): Promise<PostListing[]> {
+  const all: PostListing[] = [];
+  const seen = new Set<string>();
+
+  // Adds the batch's new listings that fall inside the window; true when the
+  // batch ends with a post older than `since`
+  const take = (batch: PostListing[]): boolean => {
+    let reachedSince = false;
+    for (const listing of batch) {
+      const date = listing.published_at ? new Date(listing.published_at) : undefined;
+      if (!seen.has(listing.slug) && (!date || inWindow(date, window))) all.push(listing);
+      seen.add(listing.slug);
+      if (date) reachedSince = window.since !== undefined && date < window.since;
+    }
+    return reachedSince;
+  };
+
+  // The feed first; the archive pages fill in when it is missing or too short
+  if (take(await cachedFeed(source, options)) || all.length >= count) {
+    return all.slice(0, count);
+  }
+
+  let page = 1;
+  while (all.length < count && page <= MAX_ARCHIVE_PAGES) {
+    const batch = await cachedListings(source, page, options);
+    if (batch.length === 0) break;
+
+    const reachedSince = take(batch);
+    if (all.length >= count || reachedSince || !source.archive.paginated) break;
+
+    page++;
+  }
+
+  return all.slice(0, count);
+}
+
+// Drops posts outside the window, including posts whose date is still unknown
+// after scraping. Without a window, returns the posts unchanged.
+export function filterByWindow<T extends PostListing>(
+  posts: T[],
+  window: DateWindow
+): T[] {
+  if (!hasWindow(window)) return posts;
+  return posts.filter(
+    (post) =>
+      post.published_at !== undefined &&
+      inWindow(new Date(post.published_at), window)
+  );
+}
+
+// ─── Step 2: Scrape individual post content ───────────────────────────────────
+// Beehiiv renders post content inside #content-blocks. We strip noise (nav,
+// footer, scripts, style tags, sponsor blocks) then convert to clean markdown.
+
+// Extracts a post from its page HTML, starting from what its listing says
+export function parsePost(
+  source: NewsletterSource,
+  listing: PostListing,
+  html: string
+): PostContent {
+  const root = parse(html);
+
+  // ── Metadata (JSON-LD is most reliable) ───────────────────────────────────
+  let title = listing.title;
+  let datePublished = listing.date;
+  let publishedAt = listing.published_at;
+  let description = "";
+  let featuredImage = "";
+  let author = source.defaultAuthor;
+
+  for (const script of root.querySelectorAll(
+    'script[type="application/ld+json"]'
+  )) {
+    try {
+      const data = JSON.parse(script.text);
+      if (data.headline) title = data.headline;
+      if (data.datePublished) {
+        const published = new Date(data.datePublished);
+        if (!isNaN(published.getTime())) {
+          datePublished = formatDate(published);
+          publishedAt = published.toISOString();
+        }
+      }
+      if (data.description) description = data.description;
+      if (data.image?.url) featuredImage = data.image.url;
+      if (data.author?.name && !source.fixedAuthor) author = data.author.name;
+    } catch {
+      // malformed JSON-LD — skip
+    }
+  }
+
+  // Fallback to OG meta tags
+  if (!title || title === listing.title) {
+    title =
+      root
+        .querySelector('meta[property="og:title"]')
+        ?.getAttribute("content") ??
+      root.querySelector("h1")?.text?.trim() ??
+      title;
+  }
+  if (!description) {
+    description =
+      root
+        .querySelector('meta[property="og:description"]')
+        ?.getAttribute("content") ?? "";
+  }
+  if (!featuredImage) {
+    featuredImage =
+      root
+        .querySelector('meta[property="og:image"]')
+        ?.getAttribute("content") ?? "";
+  }
+
+  // ── Content body ──────────────────────────────────────────────────────────
+  // Beehiiv's actual post body lives in #content-blocks
+  let contentEl: HTMLElement | null =
+    root.querySelector("#content-blocks") ??
+    root.querySelector(".rendered-post") ??
+    root.querySelector("main");
+
+  if (!contentEl) {
+    contentEl = root.querySelector("body") ?? root;
+  }
+
+  const { markdown, externalLinks } = convertBody(source, contentEl);
+
+  return {
+    ...listing,
+    title,
+    date: datePublished,
+    published_at: publishedAt,
+    author,
+    subtitle: description,
+    content_markdown: markdown,
+    external_links: externalLinks,
+    sections: parseSections(markdown, (href) => isExternalLink(source, href)),
+    featured_image: featuredImage || undefined,
+  };
+}
+
+export async function scrapePostContent(
+  source: NewsletterSource,
+  listing: PostListing
+): Promise<PostContent> {
+  return parsePost(source, listing, await fetchHtml(listing.url));
+}
+
+// Builds a post from the full HTML carried in its feed entry, with the same
+// cleanup as a scraped page.
+export function postFromFeed(
+  source: NewsletterSource,
+  listing: PostListing,
+  entry: FeedEntry
+): PostContent {
+  const { markdown, externalLinks } = convertBody(source, parse(entry.content_html ?? ""));
+  return {
+    ...listing,
+    author: source.fixedAuthor || !entry.author ? source.defaultAuthor : entry.author,
+    subtitle: entry.subtitle ?? "",
+    content_markdown: markdown,
+    external_links: externalLinks,
+    sections: parseSections(markdown, (href) => isExternalLink(source, href)),
+    featured_image: entry.featured_image,
+  };
+}
+
+// Keeps a slot for a post whose page could not be fetched, so the digest still
+// includes every post that was listed.
+export function placeholderPost(
+  source: NewsletterSource,
+  listing: PostListing,
+  err: unknown
+): PostContent {
+  const message = err instanceof Error ? err.message : String(err);
+  return {
+    ...listing,
+    author: source.defaultAuthor,
+    subtitle: "",
+    content_markdown: `_Could not fetch content: ${message}_`,
+    external_links: [],
+    sections: [],
+    fetch_error: {
+      message,
+      attempts: err instanceof FetchError ? err.attempts : 1,
+    },
+  };
+}
+
+// Counts a freshly scraped post and caches it. An empty body usually means the
+// source's markup changed and the content selectors no longer match; it isn't
+// cached, because cached posts never expire and a fixed selector or a retry
+// should get the real content.
+async function storeScrape(source: NewsletterSource, post: PostContent): Promise<void> {
+  const empty = !post.content_markdown.trim();
+  postsScraped.inc({ source: source.id, result: empty ? "empty" : "ok" });
+  if (empty) {
+    log.warn("extracted empty post body", { source: source.id, url: post.url });
+    return;
+  }
+  await writeCachedPost(source, post);
+}
+
+// Cache lookup shared by the post fetchers; callers count misses, since a
+// post built from the feed isn't one. Posts cached before section parsing
+// existed get their sections derived from the stored markdown.
+async function cachedPost(
+  source: NewsletterSource,
+  slug: string,
+  { refresh, stats }: ScrapeOptions
+): Promise<PostContent | undefined> {
+  const cached = refresh ? undefined : await readCachedPost(source, slug);
+  if (!cached) return undefined;
+  if (stats) stats.posts.hits++;
+  cached.sections ??= parseSections(cached.content_markdown, (href) =>
+    isExternalLink(source, href)
+  );
+  return cached;
+}
+
+// Fetches full content for each listing, keeping listing order. Cached posts
+// and posts whose feed entry carried the full HTML are built without a page
+// request; live fetches run on a small worker pool and are paced by the
+// per-host rate limiter in fetcher.ts. Placeholders for failed fetches and
+// posts with an empty body are never cached.
+export async function scrapePosts(
+  source: NewsletterSource,
+  listings: PostListing[],
+  options: ScrapeOptions = {}
+): Promise<PostContent[]> {
+  return mapConcurrent(listings, fetchConcurrency(), async (listing) => {
+    const cached = await cachedPost(source, listing.slug, options);
+    if (cached) return cached;
+
+    const entry = feedContent.get(source.id)?.get(listing.url);
+    if (options.stats) options.stats.posts[entry ? "from_feed" : "misses"]++;
+    try {
+      const post = entry
+        ? postFromFeed(source, listing, entry)
+        : await scrapePostContent(source, listing);
+      await storeScrape(source, post);
+      return post;
+    } catch (err) {
+      postsScraped.inc({ source: source.id, result: "failed" });
+      log.warn("post fetch failed", { source: source.id, url: listing.url, err });
+      return placeholderPost(source, listing, err);
+    }
+  });
+}
+
+// Listing + content in one step: the N most recent posts inside the window.
+export async function fetchPosts(
+  source: NewsletterSource,
+  count: number,
+  window: DateWindow = {},
+  options: ScrapeOptions = {}
+): Promise<PostContent[]> {
+  const listings = await collectListings(source, count, window, options);
+  if (listings.length === 0) return [];
+  return filterByWindow(await scrapePosts(source, listings, options), window);
+}
+
+// Fetches one post by slug, e.g. an old issue that no longer appears in the
+// listing pages. Served from the cache when possible; errors are thrown rather
+// than turned into a placeholder.
+export async function fetchPost(
+  source: NewsletterSource,
+  slug: string,
+  options: ScrapeOptions = {}
+): Promise<PostContent> {
+  const cached = await cachedPost(source, slug, options);
+  if (cached) return cached;
+  if (options.stats) options.stats.posts.misses++;
+
+  let post: PostContent;
+  try {
+    post = await scrapePostContent(source, {
+      title: slug.replace(/-/g, " "),
+      date: "",
+      url: `${source.baseUrl}/p/${slug}`,
+      slug,
+    });
+  } catch (err) {
+    postsScraped.inc({ source: source.id, result: "failed" });
+    throw err;
+  }
+  await storeScrape(source, post);
+  return post;
+}
@@ -0,0 +1,165 @@
+import type { PostContent } from "./types.js";
+
+// ─── Full-text search ────────────────────────────────────────────────────────
+// A small in-memory BM25 index over scraped posts. Title and subtitle terms are
+// counted several times so that a post *about* a topic outranks one that only
+// mentions it in passing. Posts come from the on-disk cache, so rebuilding the
+// index per query is cheap.
+
+const K1 = 1.2;
+const B = 0.75;
+const TITLE_WEIGHT = 3;
+const SUBTITLE_WEIGHT = 2;
+const SNIPPET_LENGTH = 240;
+
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be but by for from has have how i in is it its of on or " +
+    "that the this to was were what when where which who will with you your about " +
+    "did does do we our they their them he she his her said say says"
+  ).split(" ")
+);
+
+export interface SearchDocument {
+  source: string;
+  post: PostContent;
+}
+
+export interface SearchResult extends SearchDocument {
+  score: number;
+  snippet: string;
+}
+
+interface IndexedDocument extends SearchDocument {
+  terms: Map<string, number>;
+  length: number;
+}
+
+export interface SearchIndex {
+  docs: IndexedDocument[];
+  // Number of documents containing each term
+  docFreq: Map<string, number>;
+  avgLength: number;
+}
+
+// Lowercases, splits on non-alphanumerics, drops stopwords and strips a plural
+// "s" so "agents" matches "agent".
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const raw of text.toLowerCase().split(/[^a-z0-9]+/)) {
+    if (raw.length < 2 || STOPWORDS.has(raw)) continue;
+    tokens.push(raw.length > 3 && raw.endsWith("s") && !raw.endsWith("ss")
+      ? raw.slice(0, -1)
+      : raw);
+  }
+  return tokens;
+}
+
+// Drops link targets and image markup so URLs don't pollute terms or snippets
+function plainText(markdown: string): string {
+  return markdown
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[*_`#>]+/g, "")
+    .replace(/[ \t]+/g, " ");
+}
+
+export function buildIndex(documents: SearchDocument[]): SearchIndex {
+  const docFreq = new Map<string, number>();
+  const docs: IndexedDocument[] = [];
+  let totalLength = 0;
+
+  for (const doc of documents) {
+    const terms = new Map<string, number>();
+    const add = (text: string, weight: number) => {
+      for (const token of tokenize(text)) {
+        terms.set(token, (terms.get(token) ?? 0) + weight);
+      }
+    };
+    add(doc.post.title, TITLE_WEIGHT);
+    add(doc.post.subtitle, SUBTITLE_WEIGHT);
+    add(plainText(doc.post.content_markdown), 1);
+
+    const length = [...terms.values()].reduce((sum, n) => sum + n, 0);
+    for (const term of terms.keys()) {
+      docFreq.set(term, (docFreq.get(term) ?? 0) + 1);
+    }
+    docs.push({ ...doc, terms, length });
+    totalLength += length;
+  }
+
+  return {
+    docs,
+    docFreq,
+    avgLength: docs.length > 0 ? totalLength / docs.length : 0,
+  };
+}
+
+// Picks the paragraph with the most distinct query terms and trims it to a
+// window around the first match.
+function snippetFor(post: PostContent, queryTerms: Set<string>): string {
+  const paragraphs = plainText(post.content_markdown)
+    .split(/\n{2,}/)
+    .map((p) => p.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+
+  let best = "";
+  let bestHits = 0;
+  for (const paragraph of paragraphs) {
+    const hits = new Set(tokenize(paragraph).filter((t) => queryTerms.has(t))).size;
+    if (hits > bestHits) {
+      best = paragraph;
+      bestHits = hits;
+    }
+  }
+  if (!best) return post.subtitle || paragraphs[0]?.slice(0, SNIPPET_LENGTH) || "";
+  if (best.length <= SNIPPET_LENGTH) return best;
+
+  const lower = best.toLowerCase();
+  let first = best.length;
+  for (const term of queryTerms) {
+    const at = lower.indexOf(term);
+    if (at >= 0 && at < first) first = at;
+  }
+  const start = Math.max(0, Math.min(first - 60, best.length - SNIPPET_LENGTH));
+  return (
+    (start > 0 ? "…" : "") +
+    best.slice(start, start + SNIPPET_LENGTH).trim() +
+    (start + SNIPPET_LENGTH < best.length ? "…" : "")
+  );
+}
+
+export function searchIndex(
+  index: SearchIndex,
+  query: string,
+  limit = 10
+): SearchResult[] {
+  const queryTerms = new Set(tokenize(query));
+  if (queryTerms.size === 0) return [];
+
+  const n = index.docs.length;
+  const results: SearchResult[] = [];
+
+  for (const doc of index.docs) {
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = doc.terms.get(term);
+      if (!tf) continue;
+      const df = index.docFreq.get(term) ?? 0;
+      const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+      score +=
+        (idf * tf * (K1 + 1)) /
+        (tf + K1 * (1 - B + (B * doc.length) / (index.avgLength || 1)));
+    }
+    if (score > 0) {
+      results.push({
+        source: doc.source,
+        post: doc.post,
+        score,
+        snippet: snippetFor(doc.post, queryTerms),
+      });
+    }
+  }
+
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+}
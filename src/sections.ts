@@ -0,0 +1,91 @@
+import type { PostLink, PostSection, SectionType } from "./types.js";
+
+// ─── Section parsing ─────────────────────────────────────────────────────────
+// A newsletter issue bundles several stories, a tool roundup, quick hits and
+// the like under their own headings. We split the post's markdown at every
+// h1–h4 heading (outside code fences) and classify each section by its
+// heading text. Anything before the first heading is the intro. Working from
+// the markdown keeps this independent of how deeply Beehiiv nests the heading
+// elements inside #content-blocks.
+
+const SECTION_PATTERNS: [SectionType, RegExp][] = [
+  ["prompt", /\bprompts?\b/i],
+  ["tools", /\btools?\b|treasure trove|resources|\bapps?\b|products? (of|to)|launchpad/i],
+  [
+    "quick_hits",
+    /quick hits|everything else|in other news|around the web|more news|\bbriefs?\b|rapid fire|trending|roundup|what else/i,
+  ],
+];
+
+const HEADING = /^(#{1,4})\s+(.+?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+const MARKDOWN_LINK = /(?<!!)\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g;
+
+function classify(heading: string): SectionType {
+  for (const [type, pattern] of SECTION_PATTERNS) {
+    if (pattern.test(heading)) return type;
+  }
+  return "story";
+}
+
+// Strips emphasis and link markup from heading text
+function headingText(raw: string): string {
+  return raw
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[*_`]+/g, "")
+    .trim();
+}
+
+function sectionLinks(
+  markdown: string,
+  isExternal: (url: string) => boolean
+): PostLink[] {
+  const seen = new Set<string>();
+  const links: PostLink[] = [];
+  for (const [, text, url] of markdown.matchAll(MARKDOWN_LINK)) {
+    if (!text.trim() || seen.has(url) || !isExternal(url)) continue;
+    seen.add(url);
+    links.push({ text: text.trim(), url });
+  }
+  return links;
+}
+
+export function parseSections(
+  markdown: string,
+  isExternal: (url: string) => boolean
+): PostSection[] {
+  const sections: PostSection[] = [];
+  let heading = "";
+  let type: SectionType = "intro";
+  let body: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const content = body.join("\n").trim();
+    if (heading || content) {
+      sections.push({
+        type,
+        heading,
+        content_markdown: content,
+        links: sectionLinks(content, isExternal),
+      });
+    }
+  };
+
+  for (const line of markdown.split("\n")) {
+    if (FENCE.test(line)) inFence = !inFence;
+    const match = inFence ? null : line.match(HEADING);
+    if (!match) {
+      body.push(line);
+      continue;
+    }
+
+    flush();
+    heading = headingText(match[2]);
+    type = classify(heading);
+    body = [];
+  }
+  flush();
+
+  return sections;
+}
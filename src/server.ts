@@ -0,0 +1,1307 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { newCacheStats } from "./cache.js";
+import { clusterStories, extractStories, type Story } from "./cluster.js";
+import { formatDate, hasWindow, parseWindow, type DateWindow } from "./dates.js";
+import { enrichPosts, rankLinks, type LinkEnrichment } from "./links.js";
+import { log, withLogContext } from "./logger.js";
+import { toolCalls, toolDuration } from "./metrics.js";
+import { CHARS_PER_TOKEN, shapePosts, type DetailLevel } from "./budget.js";
+import {
+  formatClusters,
+  formatDigest,
+  formatFilter,
+  formatNewPosts,
+  formatSearchResults,
+  formatSourceHealth,
+  formatTrendingTopics,
+  prepareDigest,
+  type DigestOptions,
+} from "./format.js";
+import { exportDigest, type ExportFormat } from "./export.js";
+import { checkSources } from "./health.js";
+import {
+  checkSourcesOutputShape,
+  clusterOutputShape,
+  digestOutputShape,
+  exportOutputShape,
+  newPostsOutputShape,
+  searchOutputShape,
+  trendingOutputShape,
+  type CheckSourcesOutput,
+  type ClusterOutput,
+  type DigestOutput,
+  type ExportOutput,
+  type NewPostsOutput,
+  type SearchOutput,
+  type TrendingOutput,
+} from "./schemas.js";
+import { registerPrompts } from "./prompts.js";
+import { markRead, nextUnread, readState, resolveCursor } from "./readstate.js";
+import { registerResources } from "./resources.js";
+import { buildIndex, searchIndex, type SearchDocument } from "./search.js";
+import { collectListings, fetchPost, fetchPosts, scrapePosts } from "./scraper.js";
+import {
+  getSource,
+  listSources,
+  resolvePostUrl,
+  sourceHost,
+  type NewsletterSource,
+} from "./sources.js";
+import {
+  filterPosts,
+  mergeTags,
+  tagMatcher,
+  tagPosts,
+  tagText,
+  trendingTags,
+  type TagFilter,
+} from "./tags.js";
+import type { PostContent, PostTags } from "./types.js";
+
+// ─── Tool handlers ───────────────────────────────────────────────────────────
+// The fetch, get and search handlers are also the CLI's commands (cli.ts).
+
+function errorResult(err: unknown): CallToolResult {
+  const message = err instanceof Error ? err.message : String(err);
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `Error: ${message}`,
+      },
+    ],
+    isError: true,
+  };
+}
+
+export type OutputFormat = "markdown" | "json";
+
+// How a digest is rendered: format, detail level and size budget
+export interface OutputOptions {
+  output_format?: OutputFormat;
+  detail?: DetailLevel;
+  include_images?: boolean;
+  max_tokens?: number;
+  max_chars?: number;
+}
+
+export interface FetchOptions extends OutputOptions, TagFilter {
+  count?: number;
+  since?: string;
+  until?: string;
+  refresh?: boolean;
+  enrich_links?: LinkEnrichment;
+}
+
+// The topics/entities filter of a call, or undefined when neither is given
+function tagFilter({ topics, entities }: TagFilter): TagFilter | undefined {
+  if (!topics?.length && !entities?.length) return undefined;
+  return {
+    topics: topics?.length ? topics : undefined,
+    entities: entities?.length ? entities : undefined,
+  };
+}
+
+// Every fetch result carries the posts in `structuredContent` (required by the
+// declared output schema). The text content is either the markdown digest or,
+// in json mode, the same structured data serialized for clients that only read
+// text. Detail level, image stripping and the size budget apply to both; the
+// budget is measured on the text actually returned.
+export function digestResult(
+  source: NewsletterSource,
+  posts: PostContent[],
+  meta: Omit<DigestOutput, "posts" | "output">,
+  digestOptions: DigestOptions,
+  {
+    output_format = "markdown",
+    detail = "full",
+    include_images = true,
+    max_tokens,
+    max_chars,
+  }: OutputOptions,
+  emptyMessage: string
+): CallToolResult {
+  const maxChars =
+    max_chars ?? (max_tokens !== undefined ? max_tokens * CHARS_PER_TOKEN : undefined);
+  const { posts: shaped, report } = prepareDigest(
+    source,
+    posts,
+    { detail, images: include_images, maxChars },
+    digestOptions,
+    output_format === "json"
+      ? (candidates, trimmed) => JSON.stringify({ ...meta, posts: candidates, output: trimmed }, null, 2)
+      : undefined
+  );
+  const output: DigestOutput = { ...meta, posts: shaped, output: report };
+  const reshaped = detail !== "full" || !include_images || maxChars !== undefined;
+
+  let text: string;
+  if (output_format === "json") {
+    text = JSON.stringify(output, null, 2);
+  } else if (shaped.length === 0) {
+    text = emptyMessage;
+  } else {
+    text = formatDigest(source, shaped, {
+      ...digestOptions,
+      trimmed: reshaped ? report : undefined,
+    });
+  }
+
+  return {
+    content: [{ type: "text" as const, text }],
+    structuredContent: output,
+  };
+}
+
+// Shared by every fetch tool. Without a date window `count` defaults to the
+// source's default; with one, it only caps the result (at the source maximum).
+// A topics/entities filter narrows the fetched posts to matching stories.
+export async function fetchNewsletter(
+  source: NewsletterSource,
+  {
+    count,
+    since,
+    until,
+    refresh,
+    enrich_links = "none",
+    topics,
+    entities,
+    ...outputOptions
+  }: FetchOptions
+): Promise<CallToolResult> {
+  try {
+    const stats = newCacheStats();
+    const window: DateWindow = parseWindow(since, until);
+    const limit = Math.min(
+      count ?? (hasWindow(window) ? source.maxCount : source.defaultCount),
+      source.maxCount
+    );
+
+    const filter = tagFilter({ topics, entities });
+    const matches = filter && tagMatcher(filter);
+
+    // Collect post URLs from the homepage / archive pages, then fetch full
+    // content for each post
+    const fetched = await enrichPosts(
+      await fetchPosts(source, limit, window, { refresh, stats }),
+      enrich_links
+    );
+    const posts = filterPosts(fetched, matches);
+    const topLinks = enrich_links !== "none" ? rankLinks(posts) : undefined;
+
+    return digestResult(
+      source,
+      posts,
+      {
+        source: source.id,
+        source_name: source.name,
+        fetched_at: new Date().toISOString(),
+        since: window.since?.toISOString(),
+        until: window.until?.toISOString(),
+        filter,
+        cache: stats,
+        top_links: topLinks,
+      },
+      { window, cache: stats, topLinks, filter },
+      outputOptions,
+      filter && fetched.length > 0
+        ? `None of the ${fetched.length} posts fetched from ${sourceHost(source)} matched the filter (${formatFilter(filter)}).`
+        : hasWindow(window)
+          ? `No posts found on ${sourceHost(source)} in the requested date range.`
+          : `No posts found on ${sourceHost(source)}. The site may be temporarily unavailable.`
+    );
+  } catch (err) {
+    return errorResult(err);
+  }
+}
+
+export interface GetPostOptions extends OutputOptions {
+  url?: string;
+  source?: string;
+  slug?: string;
+  refresh?: boolean;
+  enrich_links?: LinkEnrichment;
+}
+
+// Fetches a single post by URL (source picked from the host) or source + slug.
+// Works for any post, not just those still on the listing pages.
+export async function getNewsletterPost({
+  url,
+  source: sourceId,
+  slug,
+  refresh,
+  enrich_links = "none",
+  ...outputOptions
+}: GetPostOptions): Promise<CallToolResult> {
+  try {
+    let source: NewsletterSource;
+    if (url) {
+      ({ source, slug } = resolvePostUrl(url));
+    } else if (sourceId && slug) {
+      source = getSource(sourceId);
+      slug = slug.replace(/^\/?p\//, "");
+    } else {
+      throw new Error("Provide either `url`, or both `source` and `slug`.");
+    }
+
+    const stats = newCacheStats();
+    const fetched = await fetchPost(source, slug, { refresh, stats });
+    const [post] = tagPosts(await enrichPosts([fetched], enrich_links));
+    return digestResult(
+      source,
+      [post],
+      {
+        source: source.id,
+        source_name: source.name,
+        fetched_at: new Date().toISOString(),
+        cache: stats,
+      },
+      { cache: stats, heading: post.title },
+      outputOptions,
+      ""
+    );
+  } catch (err) {
+    return errorResult(err);
+  }
+}
+
+interface WeeklySourcesOptions extends TagFilter {
+  sources?: string[];
+  since?: string;
+  until?: string;
+  refresh?: boolean;
+  output_format?: OutputFormat;
+  enrich_links?: LinkEnrichment;
+}
+
+// Fetches every post in the window from each source, breaks them into stories
+// and groups stories about the same event (see cluster.ts). A topics/entities
+// filter keeps only the matching stories.
+async function fetchWeeklyDigestSources({
+  sources: sourceIds,
+  since = "7 days ago",
+  until,
+  refresh,
+  output_format = "markdown",
+  enrich_links = "none",
+  topics,
+  entities,
+}: WeeklySourcesOptions): Promise<CallToolResult> {
+  try {
+    const sources = sourceIds?.length
+      ? sourceIds.map(getSource)
+      : listSources();
+    const window = parseWindow(since, until);
+    const filter = tagFilter({ topics, entities });
+    const matches = filter && tagMatcher(filter);
+
+    // Sources live on different hosts, so they can be fetched side by side
+    const perSource = await Promise.all(
+      sources.map(async (source) =>
+        enrichPosts(await fetchPosts(source, source.maxCount, window, { refresh }), enrich_links)
+      )
+    );
+    const fetched = sources.map((source, i) => ({
+      source,
+      postCount: perSource[i].length,
+    }));
+    const stories: Story[] = sources
+      .flatMap((source, i) => perSource[i].flatMap((post) => extractStories(source.id, post)))
+      .filter((story) => !matches || matches(story.content_markdown, story.heading));
+
+    const clusters = clusterStories(stories).map((cluster) => ({
+      ...cluster,
+      tags: mergeTags(cluster.stories.map((story) => tagText(story.content_markdown, story.heading))),
+    }));
+    const topLinks = enrich_links !== "none" ? rankLinks(perSource.flat()) : undefined;
+    const output: ClusterOutput = {
+      sources: sources.map((s) => s.id),
+      fetched_at: new Date().toISOString(),
+      since: window.since?.toISOString(),
+      until: window.until?.toISOString(),
+      filter,
+      post_count: fetched.reduce((n, f) => n + f.postCount, 0),
+      story_count: stories.length,
+      top_links: topLinks,
+      clusters: clusters.map((cluster) => ({
+        headline: cluster.headline,
+        content_markdown: cluster.content_markdown,
+        sources: cluster.sources,
+        links: cluster.links,
+        tags: cluster.tags,
+        mentions: cluster.stories.map((story) => ({
+          source: story.source,
+          post_title: story.post.title,
+          post_url: story.post.url,
+          date: story.post.date,
+          heading: story.heading,
+        })),
+      })),
+    };
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text:
+            output_format === "json"
+              ? JSON.stringify(output, null, 2)
+              : output.story_count > 0
+                ? formatClusters(fetched, clusters, window, topLinks, filter)
+                : output.post_count > 0
+                  ? `None of the ${output.post_count} posts in the requested date range had stories matching the filter (${formatFilter(filter!)}).`
+                  : "No posts found in the requested date range.",
+        },
+      ],
+      structuredContent: output,
+    };
+  } catch (err) {
+    return errorResult(err);
+  }
+}
+
+// Posts indexed per source when the search has a `since` but no max_posts
+const MAX_SEARCH_POSTS = 100;
+const DEFAULT_SEARCH_POSTS = 30;
+
+export interface SearchOptions {
+  query: string;
+  sources?: string[];
+  since?: string;
+  until?: string;
+  max_posts?: number;
+  limit?: number;
+  refresh?: boolean;
+}
+
+// Fetches (mostly from cache) the recent posts of each source, indexes them and
+// returns the best matches. With `since`, the archive is paged back until
+// posts fall before it.
+export async function searchNewsletters({
+  query,
+  sources: sourceIds,
+  since,
+  until,
+  max_posts,
+  limit = 10,
+  refresh,
+}: SearchOptions): Promise<CallToolResult> {
+  try {
+    const sources = sourceIds?.length
+      ? sourceIds.map(getSource)
+      : listSources();
+    const window = parseWindow(since, until);
+    const perSource =
+      max_posts ?? (window.since ? MAX_SEARCH_POSTS : DEFAULT_SEARCH_POSTS);
+
+    const fetched = await Promise.all(
+      sources.map((source) => fetchPosts(source, perSource, window, { refresh }))
+    );
+    const documents: SearchDocument[] = sources.flatMap((source, i) =>
+      fetched[i].map((post) => ({ source: source.id, post }))
+    );
+
+    const results = searchIndex(buildIndex(documents), query, limit);
+    const output: SearchOutput = {
+      query,
+      indexed_posts: documents.length,
+      results: results.map(({ source, post, score, snippet }) => ({
+        source,
+        title: post.title,
+        date: post.date,
+        published_at: post.published_at,
+        url: post.url,
+        score,
+        snippet,
+      })),
+    };
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: formatSearchResults(query, results, documents.length),
+        },
+      ],
+      structuredContent: output,
+    };
+  } catch (err) {
+    return errorResult(err);
+  }
+}
+
+// Listings scanned per source for unread posts after a read mark
+const MAX_UNREAD_LISTINGS = 100;
+
+interface NewPostsOptions {
+  cursor?: string;
+  sources?: string[];
+  max_posts?: number;
+  acknowledge?: boolean;
+  refresh?: boolean;
+  output_format?: OutputFormat;
+  detail?: DetailLevel;
+  include_images?: boolean;
+}
+
+// Returns, per source, the posts published after the cursor's last
+// acknowledged post (see readstate.ts), oldest unread first when there are
+// more than max_posts. A first run returns the source's default number of
+// recent posts. With `acknowledge`, the newest returned post
+// is marked as read — except that posts whose fetch failed stay unread, so
+// the mark never moves past them.
+async function fetchNewPosts(
+  {
+    cursor,
+    sources: sourceIds,
+    max_posts,
+    acknowledge = false,
+    refresh,
+    output_format = "markdown",
+    detail = "full",
+    include_images = true,
+  }: NewPostsOptions,
+  sessionId: string | undefined
+): Promise<CallToolResult> {
+  try {
+    const client = resolveCursor(cursor, sessionId);
+    const sources = sourceIds?.length
+      ? sourceIds.map(getSource)
+      : listSources();
+    const state = await readState(client);
+
+    const results = await Promise.all(
+      sources.map(async (source) => {
+        const mark = state.sources[source.id];
+        // Page back to the acknowledged post's date, when it is known
+        const window: DateWindow = mark?.published_at
+          ? { since: new Date(mark.published_at) }
+          : {};
+        const limit = Math.min(
+          max_posts ?? (mark ? source.maxCount : source.defaultCount),
+          source.maxCount
+        );
+        // After a dated mark, everything unread is listed (paging stops at the
+        // mark's date) so the oldest unread posts can be returned first
+        const scan = mark ? (mark.published_at ? MAX_UNREAD_LISTINGS : source.maxCount) : limit;
+        const listings = await collectListings(source, scan, window, { refresh });
+        const { listings: unread, remaining } = mark
+          ? nextUnread(listings, mark, limit)
+          : { listings, remaining: 0 };
+        const posts = unread.length > 0 ? tagPosts(await scrapePosts(source, unread, { refresh })) : [];
+
+        let acknowledged: PostContent | undefined;
+        if (acknowledge) {
+          const lastFailed = posts.map((post) => !!post.fetch_error).lastIndexOf(true);
+          acknowledged = posts[lastFailed + 1];
+        }
+        return { source, mark, posts, remaining, acknowledged };
+      })
+    );
+
+    const marks = results.flatMap(({ source, acknowledged }) =>
+      acknowledged ? [{ sourceId: source.id, listing: acknowledged }] : []
+    );
+    if (marks.length > 0) await markRead(client, marks);
+
+    const output: NewPostsOutput = {
+      cursor: client,
+      fetched_at: new Date().toISOString(),
+      acknowledged: acknowledge,
+      sources: results.map(({ source, mark, posts, remaining, acknowledged }) => ({
+        source: source.id,
+        source_name: source.name,
+        previous_mark: mark && { slug: mark.slug, published_at: mark.published_at },
+        acknowledged_slug: acknowledged?.slug,
+        remaining,
+        posts: shapePosts(posts, { detail, images: include_images }).posts,
+      })),
+    };
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text:
+            output_format === "json"
+              ? JSON.stringify(output, null, 2)
+              : formatNewPosts(
+                  client,
+                  results.map(({ source, mark, remaining, acknowledged }, i) => ({
+                    source,
+                    previous: mark?.slug,
+                    posts: output.sources[i].posts,
+                    remaining,
+                    acknowledged: acknowledged?.slug,
+                  })),
+                  acknowledge
+                ),
+        },
+      ],
+      structuredContent: output,
+    };
+  } catch (err) {
+    return errorResult(err);
+  }
+}
+
+interface MarkReadOptions {
+  cursor?: string;
+  source: string;
+  slug?: string;
+  reset?: boolean;
+}
+
+// Moves a cursor's mark for one source: to `slug`, to the newest listed post
+// when no slug is given, or back to "never read" with `reset`.
+async function markPostsRead(
+  { cursor, source: sourceId, slug, reset }: MarkReadOptions,
+  sessionId: string | undefined
+): Promise<CallToolResult> {
+  try {
+    const client = resolveCursor(cursor, sessionId);
+    const source = getSource(sourceId);
+
+    let text: string;
+    if (reset) {
+      await markRead(client, [{ sourceId: source.id }]);
+      text = `Cleared the read mark for ${source.name} on cursor "${client}"; the next fetch_new_posts starts over.`;
+    } else {
+      const listings = await collectListings(source, source.maxCount);
+      const target = slug?.replace(/^\/?p\//, "");
+      // A post no longer listed is fetched (usually from cache) for its date
+      const listing = target
+        ? listings.find((l) => l.slug === target) ?? (await fetchPost(source, target))
+        : listings[0];
+      if (!listing) throw new Error(`No posts found on ${sourceHost(source)}.`);
+      await markRead(client, [{ sourceId: source.id, listing }]);
+      text = `Marked ${source.name} as read up to "${listing.title}" (${listing.slug}) on cursor "${client}".`;
+    }
+
+    return { content: [{ type: "text" as const, text }] };
+  } catch (err) {
+    return errorResult(err);
+  }
+}
+
+// Scrapes a sample listing page and post per source and reports whether
+// extraction still works
+async function checkSourcesTool({
+  sources: sourceIds,
+  refresh,
+}: {
+  sources?: string[];
+  refresh?: boolean;
+}): Promise<CallToolResult> {
+  try {
+    const sources = sourceIds?.length ? sourceIds.map(getSource) : listSources();
+    const output: CheckSourcesOutput = await checkSources(sources, refresh);
+    return {
+      content: [
+        { type: "text" as const, text: formatSourceHealth(output.sources, output.status) },
+      ],
+      structuredContent: output,
+    };
+  } catch (err) {
+    return errorResult(err);
+  }
+}
+
+interface ExportOptions {
+  format: ExportFormat;
+  digest?: string;
+  include_posts?: boolean;
+  sources?: string[];
+  since?: string;
+  until?: string;
+  refresh?: boolean;
+  enrich_links?: LinkEnrichment;
+  title?: string;
+  name?: string;
+}
+
+// Renders a window of posts and/or a digest written from them to files (see
+// export.ts). Posts whose page couldn't be fetched are left out and reported.
+async function exportDigestTool({
+  format,
+  digest,
+  include_posts = !digest,
+  sources: sourceIds,
+  since = "7 days ago",
+  until,
+  refresh,
+  enrich_links = "none",
+  title,
+  name,
+}: ExportOptions): Promise<CallToolResult> {
+  try {
+    if (!include_posts && !digest?.trim()) {
+      throw new Error("Nothing to export: pass a `digest`, or leave `include_posts` on.");
+    }
+    const sources = sourceIds?.length ? sourceIds.map(getSource) : listSources();
+    const window = parseWindow(since, until);
+
+    const perSource = include_posts
+      ? await Promise.all(
+          sources.map(async (source) =>
+            enrichPosts(await fetchPosts(source, source.maxCount, window, { refresh }), enrich_links)
+          )
+        )
+      : sources.map(() => []);
+    const skipped = perSource.flat().filter((post) => post.fetch_error);
+
+    const compiledAt = new Date();
+    const span = window.since
+      ? `${formatDate(window.since)} to ${formatDate(window.until ?? compiledAt)}`
+      : formatDate(compiledAt);
+    const exportTitle = title ?? `Newsletter Digest — ${span}`;
+    const groups = sources.map((source, i) => ({
+      source,
+      posts: perSource[i].filter((post) => !post.fetch_error),
+    }));
+    // An export with neither posts nor a digest would be empty (and an EPUB
+    // without chapters is invalid)
+    if (!digest?.trim() && groups.every((group) => group.posts.length === 0)) {
+      throw new Error(
+        skipped.length > 0
+          ? `Nothing to export: none of the ${skipped.length} posts from ${span} could be fetched (${skipped[0].fetch_error!.message}).`
+          : `Nothing to export: no posts were published from ${span}.`
+      );
+    }
+    const { directory, files } = await exportDigest(
+      format,
+      { title: exportTitle, digest, sources: groups, compiledAt },
+      name
+    );
+
+    const output: ExportOutput = {
+      format,
+      title: exportTitle,
+      directory,
+      post_count: groups.reduce((n, group) => n + group.posts.length, 0),
+      skipped_posts: skipped.map((post) => ({
+        title: post.title,
+        url: post.url,
+        error: post.fetch_error!.message,
+      })),
+      files,
+    };
+    const lines = [
+      `Exported "${exportTitle}" as ${format} (${output.post_count} posts${digest ? " and the written digest" : ""}):`,
+      ...files.map((file) => `- ${file.path} (${(file.bytes / 1024).toFixed(1)} KB)`),
+      ...(skipped.length > 0
+        ? [
+            `Skipped ${skipped.length} post${skipped.length === 1 ? "" : "s"} that could not be fetched:`,
+            ...output.skipped_posts.map((post) => `- ${post.title} <${post.url}>: ${post.error}`),
+          ]
+        : []),
+    ];
+    return {
+      content: [{ type: "text" as const, text: lines.join("\n") }],
+      structuredContent: output,
+    };
+  } catch (err) {
+    return errorResult(err);
+  }
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+// Posts fetched per source for the trend window
+const MAX_TREND_POSTS = 100;
+
+interface TrendingOptions {
+  sources?: string[];
+  weeks?: number;
+  until?: string;
+  limit?: number;
+  refresh?: boolean;
+  output_format?: OutputFormat;
+}
+
+// Tags every story of the last `weeks` weeks (each ending at `until`) and
+// compares how often each topic and entity came up week by week
+async function trendingTopics({
+  sources: sourceIds,
+  weeks = 4,
+  until,
+  limit = 10,
+  refresh,
+  output_format = "markdown",
+}: TrendingOptions): Promise<CallToolResult> {
+  try {
+    const sources = sourceIds?.length ? sourceIds.map(getSource) : listSources();
+    const end = parseWindow(undefined, until).until ?? new Date();
+    const window: DateWindow = { since: new Date(end.getTime() - weeks * WEEK_MS), until: end };
+
+    const perSource = await Promise.all(
+      sources.map((source) => fetchPosts(source, MAX_TREND_POSTS, window, { refresh }))
+    );
+    const buckets = Array.from({ length: weeks }, (_, i) => ({
+      since: new Date(end.getTime() - (weeks - i) * WEEK_MS),
+      until: new Date(end.getTime() - (weeks - i - 1) * WEEK_MS),
+      posts: 0,
+      stories: [] as PostTags[],
+    }));
+    sources.forEach((source, i) => {
+      for (const post of perSource[i]) {
+        if (post.fetch_error || !post.published_at) continue;
+        const age = Math.floor((end.getTime() - new Date(post.published_at).getTime()) / WEEK_MS);
+        const bucket = buckets[weeks - 1 - Math.min(Math.max(age, 0), weeks - 1)];
+        bucket.posts++;
+        for (const story of extractStories(source.id, post)) {
+          bucket.stories.push(tagText(story.content_markdown, story.heading));
+        }
+      }
+    });
+
+    const trends = trendingTags(
+      buckets.map((bucket) => bucket.stories),
+      limit
+    );
+    const output: TrendingOutput = {
+      sources: sources.map((s) => s.id),
+      fetched_at: new Date().toISOString(),
+      weeks: buckets.map((bucket) => ({
+        since: bucket.since.toISOString(),
+        until: bucket.until.toISOString(),
+        posts: bucket.posts,
+        stories: bucket.stories.length,
+      })),
+      ...trends,
+    };
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text:
+            output_format === "json"
+              ? JSON.stringify(output, null, 2)
+              : formatTrendingTopics(sources, output),
+        },
+      ],
+      structuredContent: output,
+    };
+  } catch (err) {
+    return errorResult(err);
+  }
+}
+
+// Numeric arguments; the command line (cli.ts) checks its options against
+// the same bounds
+export const countSchema = z.number().int().min(1).max(30);
+export const searchMaxPostsSchema = z.number().int().min(1).max(MAX_SEARCH_POSTS);
+export const searchLimitSchema = z.number().int().min(1).max(50);
+
+// Shared by every fetch tool: date window and cache control
+export const fetchOptionsShape = {
+  since: z
+    .string()
+    .optional()
+    .describe(
+      "Only return posts published on or after this date: YYYY-MM-DD, an ISO timestamp, or relative like \"7 days ago\". " +
+        "Archive pages are followed until posts fall before this date."
+    ),
+  until: z
+    .string()
+    .optional()
+    .describe(
+      "Only return posts published on or before this date (a date-only value includes the whole day). Same formats as `since`."
+    ),
+  refresh: z
+    .boolean()
+    .optional()
+    .describe(
+      "Bypass the local cache and re-fetch listing pages and posts. Default false: previously scraped posts are reused."
+    ),
+  output_format: z
+    .enum(["markdown", "json"])
+    .optional()
+    .describe(
+      "\"markdown\" (default) returns the digest document; \"json\" returns the posts as JSON. " +
+        "Either way the posts are also available in structuredContent."
+    ),
+  detail: z
+    .enum(["full", "summary", "headlines"])
+    .optional()
+    .describe(
+      "\"full\" (default) includes every post body; \"summary\" keeps each section's heading and first paragraph plus links; " +
+        "\"headlines\" keeps only titles, dates, summaries and section headings."
+    ),
+  include_images: z
+    .boolean()
+    .optional()
+    .describe("Include images and featured images. Default true; set false to save tokens."),
+  max_tokens: z
+    .number()
+    .int()
+    .min(500)
+    .optional()
+    .describe(
+      `Approximate token budget for the whole result (${CHARS_PER_TOKEN} chars per token). ` +
+        "Post bodies are trimmed evenly across posts to fit, and the header reports what was cut."
+    ),
+  max_chars: z
+    .number()
+    .int()
+    .min(2000)
+    .optional()
+    .describe("Character budget for the whole result; takes precedence over max_tokens."),
+  enrich_links: z
+    .enum(["none", "resolve", "metadata"])
+    .optional()
+    .describe(
+      "\"none\" (default) leaves links as they appear. \"resolve\" follows each external link's redirects and strips " +
+        "tracking parameters (utm_*, _bhlid, …), merging links to the same destination and adding a most-cited links " +
+        "ranking; \"metadata\" also adds each destination's title and description. Costs one request per new link."
+    ),
+  topics: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "Only keep stories tagged with any of these topics: models, tooling, funding, policy, research, open-source " +
+        "(or a topic added in the tag dictionary). " +
+        "Posts are narrowed to their matching stories (and roundup items); posts with none are left out."
+    ),
+  entities: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "Only keep stories mentioning any of these companies, products or models, e.g. \"OpenAI\", \"Llama\". " +
+        "Names the tag dictionary doesn't know are matched as plain text. Combined with `topics`, a story must match both."
+    ),
+};
+
+// ─── Instrumentation ─────────────────────────────────────────────────────────
+
+interface ToolCallExtra {
+  sessionId?: string;
+  requestId: string | number;
+}
+
+// Wraps a tool callback so every call is timed, counted by outcome and logged,
+// and anything it logs carries the tool name and JSON-RPC/session ids.
+function instrumented<A>(
+  tool: string,
+  handler: (args: A, extra: ToolCallExtra) => Promise<CallToolResult>
+): (args: A, extra: ToolCallExtra) => Promise<CallToolResult> {
+  return (args, extra) =>
+    withLogContext(
+      { tool, rpc_id: String(extra.requestId), session_id: extra.sessionId },
+      async () => {
+        const stopTimer = toolDuration.startTimer({ tool });
+        let status = "error";
+        try {
+          const result = await handler(args, extra);
+          if (!result.isError) status = "ok";
+          return result;
+        } finally {
+          stopTimer();
+          toolCalls.inc({ tool, status });
+          log.info("tool call", { status });
+        }
+      }
+    );
+}
+
+// ─── MCP Server Factory ──────────────────────────────────────────────────────
+
+export function createServer(): McpServer {
+  const server = new McpServer({
+    name: "superhuman-newsletter",
+    version: "3.0.0",
+  });
+
+  const sourceList = listSources()
+    .map((s) => `"${s.id}" (${s.name}, up to ${s.maxCount} posts)`)
+    .join(", ");
+
+  server.registerTool(
+    "fetch_newsletter",
+    {
+      title: "Fetch Newsletter",
+      description:
+        "Fetches the N most recent posts from any configured Beehiiv newsletter source. " +
+        `Available sources: ${sourceList}. ` +
+        "Step 1: loads the source's homepage or archive to collect post URLs. " +
+        "Step 2: visits each post URL and scrapes its full content. " +
+        "Returns one large markdown document containing every post in full — " +
+        "title, date, source URL, body, images, and all external links — " +
+        "ready for Claude to synthesize into a weekly digest without needing to open any URLs itself.",
+      inputSchema: z.object({
+        source: z
+          .string()
+          .describe("Id of the newsletter source to fetch, e.g. \"superhuman\" or \"code\"."),
+        count: countSchema
+          .optional()
+          .describe(
+            "How many recent newsletter posts to fetch. Defaults to the source's default; capped at the source's maximum. " +
+              "With `since`/`until` it only caps the number of posts returned."
+          ),
+        ...fetchOptionsShape,
+      }),
+      outputSchema: digestOutputShape,
+    },
+    instrumented("fetch_newsletter", async ({ source: sourceId, ...options }) => {
+      let source: NewsletterSource;
+      try {
+        source = getSource(sourceId);
+      } catch (err) {
+        return errorResult(err);
+      }
+      return fetchNewsletter(source, options);
+    })
+  );
+
+  // ── Aliases kept for existing clients ──────────────────────────────────────
+
+  server.registerTool(
+    "fetch_superhuman_newsletters",
+    {
+      title: "Fetch Superhuman AI Newsletters",
+      description:
+        "Fetches the N most recent posts from the Superhuman AI newsletter (superhuman.ai). " +
+        "Step 1: loads the homepage to collect post URLs. " +
+        "Step 2: visits each post URL and scrapes its full content. " +
+        "Returns one large markdown document containing every post in full — " +
+        "title, date, source URL, body, images, and all external links — " +
+        "ready for Claude to synthesize into a weekly digest without needing to open any URLs itself.",
+      inputSchema: z.object({
+        count: countSchema
+          .optional()
+          .describe(
+            "How many recent newsletter posts to fetch. Default is 7 (roughly one week of daily posts). " +
+              "With `since`/`until` it only caps the number of posts returned."
+          ),
+        ...fetchOptionsShape,
+      }),
+      outputSchema: digestOutputShape,
+    },
+    instrumented("fetch_superhuman_newsletters", async (options) =>
+      fetchNewsletter(getSource("superhuman"), options)
+    )
+  );
+
+  server.registerTool(
+    "fetch_code_newsletter",
+    {
+      title: "Fetch The Code Newsletter",
+      description:
+        "Fetches the N most recent posts from The Code newsletter (codenewsletter.ai). " +
+        "Step 1: reads the RSS feed (or the archive page) to collect post URLs. " +
+        "Step 2: visits each post URL and scrapes its full content. " +
+        "Returns one large markdown document containing every post in full — " +
+        "title, date, source URL, body, images, and all external links — " +
+        "ready for Claude to synthesize into a weekly digest without needing to open any URLs itself. " +
+        "Posts are listed from the RSS feed; if the feed is unavailable, the archive page serves only ~9 posts.",
+      inputSchema: z.object({
+        count: countSchema
+          .optional()
+          .describe(
+            "How many recent newsletter posts to fetch. Default is 5. " +
+              "With `since`/`until` it only caps the number of posts returned."
+          ),
+        ...fetchOptionsShape,
+      }),
+      outputSchema: digestOutputShape,
+    },
+    instrumented("fetch_code_newsletter", async (options) =>
+      fetchNewsletter(getSource("code"), options)
+    )
+  );
+
+  server.registerTool(
+    "fetch_weekly_digest_sources",
+    {
+      title: "Fetch Weekly Digest Sources",
+      description:
+        "Fetches a week of posts from every newsletter source (Superhuman AI and The Code by default) and groups " +
+        "stories that cover the same event — a model release, a funding round — across issues and across newsletters. " +
+        "Stories are matched by shared article links and similar text. Returns one entry per event with every " +
+        "issue that mentioned it and the merged links, so the digest isn't repetitive and uses fewer tokens than " +
+        "fetching each newsletter in full.",
+      inputSchema: z.object({
+        sources: z
+          .array(z.string())
+          .optional()
+          .describe(`Source ids to include. Defaults to all: ${listSources().map((s) => s.id).join(", ")}.`),
+        since: fetchOptionsShape.since.describe(
+          "Start of the window. Default \"7 days ago\". Same formats as the fetch tools."
+        ),
+        until: fetchOptionsShape.until,
+        refresh: fetchOptionsShape.refresh,
+        output_format: fetchOptionsShape.output_format,
+        enrich_links: fetchOptionsShape.enrich_links,
+        topics: fetchOptionsShape.topics,
+        entities: fetchOptionsShape.entities,
+      }),
+      outputSchema: clusterOutputShape,
+    },
+    instrumented("fetch_weekly_digest_sources", async (options) =>
+      fetchWeeklyDigestSources(options)
+    )
+  );
+
+  server.registerTool(
+    "get_newsletter_post",
+    {
+      title: "Get Newsletter Post",
+      description:
+        "Fetches one specific newsletter post, e.g. an issue link a teammate pasted. " +
+        "Accepts a full post URL (https://…/p/{slug}; the source is picked from the host) or a source id plus slug. " +
+        "Works for old posts that are no longer on the homepage listing. " +
+        "Returns the post in the same format as the fetch tools.",
+      inputSchema: z.object({
+        url: z
+          .string()
+          .optional()
+          .describe("Full post URL, e.g. https://www.superhuman.ai/p/some-post-slug."),
+        source: z
+          .string()
+          .optional()
+          .describe("Source id, used together with `slug` when no URL is given."),
+        slug: z
+          .string()
+          .optional()
+          .describe("Post slug (the part after /p/ in the URL)."),
+        refresh: fetchOptionsShape.refresh,
+        output_format: fetchOptionsShape.output_format,
+        detail: fetchOptionsShape.detail,
+        include_images: fetchOptionsShape.include_images,
+        max_tokens: fetchOptionsShape.max_tokens,
+        max_chars: fetchOptionsShape.max_chars,
+        enrich_links: fetchOptionsShape.enrich_links,
+      }),
+      outputSchema: digestOutputShape,
+    },
+    instrumented("get_newsletter_post", async (options) => getNewsletterPost(options))
+  );
+
+  server.registerTool(
+    "search_newsletters",
+    {
+      title: "Search Newsletters",
+      description:
+        "Full-text search across the newsletter archives. Indexes the title, subtitle and body of recent posts " +
+        "from each source (served from the local cache where possible, paging back through the archive for `since`) " +
+        "and returns the best-matching posts ranked by BM25, each with a snippet, date and source URL. " +
+        "Use this instead of fetching every post when looking for what the newsletters said about a topic.",
+      inputSchema: z.object({
+        query: z.string().min(1).describe("Search terms, e.g. \"AI agents\"."),
+        sources: z
+          .array(z.string())
+          .optional()
+          .describe(`Source ids to search. Defaults to all: ${listSources().map((s) => s.id).join(", ")}.`),
+        since: fetchOptionsShape.since,
+        until: fetchOptionsShape.until,
+        max_posts: searchMaxPostsSchema
+          .optional()
+          .describe(
+            `Most recent posts to index per source. Default ${DEFAULT_SEARCH_POSTS}, or ${MAX_SEARCH_POSTS} when \`since\` is set.`
+          ),
+        limit: searchLimitSchema
+          .default(10)
+          .describe("Maximum number of results to return. Default 10."),
+        refresh: fetchOptionsShape.refresh,
+      }),
+      outputSchema: searchOutputShape,
+    },
+    instrumented("search_newsletters", async (options) => searchNewsletters(options))
+  );
+
+  server.registerTool(
+    "fetch_new_posts",
+    {
+      title: "Fetch New Posts",
+      description:
+        "Returns only the posts published since this client last acknowledged each source — for scheduled or " +
+        "recurring digests that should not repeat what they already covered. Read state is kept per `cursor` " +
+        "(or per MCP session when no cursor is given) and persists across restarts. A first run returns each " +
+        "source's default number of recent posts. Set `acknowledge` to mark the returned posts as read in the same " +
+        "call, or call mark_posts_read once the digest is done.",
+      inputSchema: z.object({
+        cursor: z
+          .string()
+          .optional()
+          .describe(
+            "Name of the read state to use, e.g. \"weekly-digest\". Defaults to the MCP session, which is lost on reconnect — scheduled jobs should always pass one."
+          ),
+        sources: z
+          .array(z.string())
+          .optional()
+          .describe(`Source ids to check. Defaults to all: ${listSources().map((s) => s.id).join(", ")}.`),
+        max_posts: z
+          .number()
+          .int()
+          .min(1)
+          .max(30)
+          .optional()
+          .describe(
+            "Most new posts to return per source (capped at the source's maximum). When more are unread, the oldest " +
+              "are returned first and the rest come back on the next call."
+          ),
+        acknowledge: z
+          .boolean()
+          .optional()
+          .describe("Mark the returned posts as read. Default false."),
+        refresh: fetchOptionsShape.refresh,
+        output_format: fetchOptionsShape.output_format,
+        detail: fetchOptionsShape.detail,
+        include_images: fetchOptionsShape.include_images,
+      }),
+      outputSchema: newPostsOutputShape,
+    },
+    instrumented("fetch_new_posts", async (options, extra) =>
+      fetchNewPosts(options, extra.sessionId)
+    )
+  );
+
+  server.registerTool(
+    "mark_posts_read",
+    {
+      title: "Mark Posts Read",
+      description:
+        "Acknowledges posts for fetch_new_posts: everything in the source up to and including the given post " +
+        "(or the newest post, when no slug is given) counts as read for this cursor. Use `reset` to start over.",
+      inputSchema: z.object({
+        cursor: z
+          .string()
+          .optional()
+          .describe("Read state to update. Defaults to the MCP session."),
+        source: z.string().describe("Source id, e.g. \"superhuman\"."),
+        slug: z
+          .string()
+          .optional()
+          .describe("Slug of the last post that was covered. Defaults to the newest post."),
+        reset: z
+          .boolean()
+          .optional()
+          .describe("Clear the read mark for this source instead."),
+      }),
+    },
+    instrumented("mark_posts_read", async (options, extra) =>
+      markPostsRead(options, extra.sessionId)
+    )
+  );
+
+  server.registerTool(
+    "check_sources",
+    {
+      title: "Check Sources",
+      description:
+        "Checks that scraping still works for each newsletter source: scrapes the first listing page and the newest " +
+        "post (bypassing the cache) and validates titles, dates, body, link count and JSON-LD metadata. Each source " +
+        "gets a pass/degraded/fail status with the reasons. Run this before sending a digest if its posts look thin. " +
+        "Results are reused for 10 minutes unless `refresh` is set; forced re-checks run at most once a minute.",
+      inputSchema: z.object({
+        sources: z
+          .array(z.string())
+          .optional()
+          .describe(`Source ids to check. Defaults to all: ${listSources().map((s) => s.id).join(", ")}.`),
+        refresh: z
+          .boolean()
+          .optional()
+          .describe("Re-run the checks even if a recent result exists."),
+      }),
+      outputSchema: checkSourcesOutputShape,
+    },
+    instrumented("check_sources", async (options) => checkSourcesTool(options))
+  );
+
+  server.registerTool(
+    "export_digest",
+    {
+      title: "Export Digest",
+      description:
+        "Saves a digest to files on the server for archiving or sending: \"html\" is one standalone page with " +
+        "inline styles that can be pasted into an email; \"obsidian\" writes one markdown note per post with front " +
+        "matter (title, source, date, author, URL, tags) plus an index note linking them; \"epub\" is an e-book " +
+        "with one chapter per post. Exports the posts in a date window (a week by default) and/or a digest you " +
+        "wrote from them, passed as `digest`. Returns the paths of the written files.",
+      inputSchema: z.object({
+        format: z
+          .enum(["html", "obsidian", "epub"])
+          .describe("\"html\" (email-ready page), \"obsidian\" (markdown notes) or \"epub\" (e-book)."),
+        digest: z
+          .string()
+          .optional()
+          .describe(
+            "A digest you wrote from the posts, in markdown. It goes first, followed by the posts themselves " +
+              "unless `include_posts` is false."
+          ),
+        include_posts: z
+          .boolean()
+          .optional()
+          .describe("Fetch and include the posts in the window. Default true, or false when `digest` is given."),
+        sources: z
+          .array(z.string())
+          .optional()
+          .describe(`Source ids to include. Defaults to all: ${listSources().map((s) => s.id).join(", ")}.`),
+        since: fetchOptionsShape.since.describe(
+          "Start of the window. Default \"7 days ago\". Same formats as the fetch tools."
+        ),
+        until: fetchOptionsShape.until,
+        refresh: fetchOptionsShape.refresh,
+        enrich_links: fetchOptionsShape.enrich_links,
+        title: z
+          .string()
+          .optional()
+          .describe("Title of the export. Defaults to \"Newsletter Digest — {window}\"."),
+        name: z
+          .string()
+          .optional()
+          .describe(
+            "File name (without extension) for the HTML/EPUB file or the Obsidian index note. Defaults to the title, slugified."
+          ),
+      }),
+      outputSchema: exportOutputShape,
+    },
+    instrumented("export_digest", async (options) => exportDigestTool(options))
+  );
+
+  server.registerTool(
+    "trending_topics",
+    {
+      title: "Trending Topics",
+      description:
+        "Shows which topics (models, tooling, funding, policy, research, open source) and which companies, products " +
+        "and models the newsletters covered more or less often over the last few weeks. Every story is tagged from " +
+        "a keyword and alias dictionary, and the tool counts tagged stories per week and compares the latest week " +
+        "with the one before. Use it to open a digest with what's trending, then fetch with `topics`/`entities` for details.",
+      inputSchema: z.object({
+        sources: z
+          .array(z.string())
+          .optional()
+          .describe(`Source ids to include. Defaults to all: ${listSources().map((s) => s.id).join(", ")}.`),
+        weeks: z
+          .number()
+          .int()
+          .min(2)
+          .max(12)
+          .optional()
+          .describe("Number of weeks to compare. Default 4."),
+        until: fetchOptionsShape.until.describe(
+          "End of the latest week. Default now. Same formats as the fetch tools."
+        ),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(50)
+          .optional()
+          .describe("Most companies, products and models to list. Default 10."),
+        refresh: fetchOptionsShape.refresh,
+        output_format: fetchOptionsShape.output_format,
+      }),
+      outputSchema: trendingOutputShape,
+    },
+    instrumented("trending_topics", async (options) => trendingTopics(options))
+  );
+
+  registerResources(server);
+  registerPrompts(server);
+
+  return server;
+}
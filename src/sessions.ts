@@ -0,0 +1,134 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { Response } from "express";
+import { log } from "./logger.js";
+import { gauge } from "./metrics.js";
+
+// ─── HTTP sessions ───────────────────────────────────────────────────────────
+// Each HTTP session owns a transport and an McpServer. Clients often vanish
+// without sending DELETE, so sessions idle for longer than the timeout are
+// closed by a periodic sweep. A session with an open GET stream is never idle:
+// the client is listening for notifications. When the cap is reached the least recently
+// used session is evicted to make room. A client whose session was closed
+// gets a 404 and re-initializes.
+//
+//   MCP_SESSION_IDLE_TIMEOUT_SECONDS  close sessions idle this long (default 1800)
+//   MCP_MAX_SESSIONS                  most concurrent sessions (default 100)
+
+const DEFAULT_IDLE_TIMEOUT_SECONDS = 30 * 60;
+const DEFAULT_MAX_SESSIONS = 100;
+const SWEEP_INTERVAL_MS = 60_000;
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  createdAt: number;
+  lastSeen: number;
+  // Open GET (SSE) streams
+  streams: number;
+}
+
+// Insertion order doubles as recency order: touching a session re-inserts it
+const sessions = new Map<string, Session>();
+
+const counters = { created: 0, closed: 0, expired: 0, evicted: 0 };
+
+gauge("mcp_http_sessions_active", "Open MCP HTTP sessions", () => [[{}, sessions.size]]);
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function idleTimeoutMs(): number {
+  return envNumber("MCP_SESSION_IDLE_TIMEOUT_SECONDS", DEFAULT_IDLE_TIMEOUT_SECONDS) * 1000;
+}
+
+function maxSessions(): number {
+  return Math.floor(envNumber("MCP_MAX_SESSIONS", DEFAULT_MAX_SESSIONS));
+}
+
+// Drops the session at once, so the map never counts it again, and closes its
+// server (which closes its transport) in the background
+function closeSession(id: string, reason: "expired" | "evicted"): void {
+  const session = sessions.get(id);
+  if (!session) return;
+  sessions.delete(id);
+  counters[reason]++;
+  log.info(`session ${reason}`, { session_id: id });
+  session.server.close().catch((err) => {
+    log.error("error closing session", { session_id: id, err });
+  });
+}
+
+export function getSession(id: string): Session | undefined {
+  const session = sessions.get(id);
+  if (!session) return undefined;
+  session.lastSeen = Date.now();
+  sessions.delete(id);
+  sessions.set(id, session);
+  return session;
+}
+
+// Registers a new session, first evicting the least recently used ones if the
+// cap is reached. Synchronous, so concurrent session starts can't both see
+// room under the cap
+export function addSession(
+  id: string,
+  transport: StreamableHTTPServerTransport,
+  server: McpServer
+): void {
+  while (sessions.size >= maxSessions()) {
+    const oldest = sessions.keys().next().value;
+    if (oldest === undefined) break;
+    closeSession(oldest, "evicted");
+  }
+  const now = Date.now();
+  sessions.set(id, { transport, server, createdAt: now, lastSeen: now, streams: 0 });
+  counters.created++;
+}
+
+// Servers of the open sessions, for broadcasting notifications
+export function sessionServers(): McpServer[] {
+  return [...sessions.values()].map((session) => session.server);
+}
+
+// Marks a GET stream as open until `res` closes; the session's idle time
+// starts counting when the last stream ends
+export function trackStream(session: Session, res: Response): void {
+  session.streams++;
+  res.on("close", () => {
+    session.streams--;
+    session.lastSeen = Date.now();
+  });
+}
+
+export function removeSession(id: string): void {
+  if (sessions.delete(id)) counters.closed++;
+}
+
+export function sweepIdleSessions(): void {
+  const cutoff = Date.now() - idleTimeoutMs();
+  for (const [id, session] of [...sessions]) {
+    if (session.streams === 0 && session.lastSeen < cutoff) closeSession(id, "expired");
+  }
+}
+
+export function startSessionSweeper(): void {
+  const timer = setInterval(sweepIdleSessions, SWEEP_INTERVAL_MS);
+  timer.unref();
+}
+
+export function sessionStats() {
+  const now = Date.now();
+  const idle = [...sessions.values()].filter((s) => s.streams === 0);
+  const oldestSeen = Math.min(...idle.map((s) => s.lastSeen));
+  return {
+    active: sessions.size,
+    max: maxSessions(),
+    idle_timeout_seconds: idleTimeoutMs() / 1000,
+    streaming: sessions.size - idle.length,
+    longest_idle_seconds: idle.length > 0 ? Math.round((now - oldestSeen) / 1000) : 0,
+    ...counters,
+  };
+}
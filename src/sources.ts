@@ -0,0 +1,184 @@
+import { readFileSync } from "fs";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+
+// ─── Newsletter sources ──────────────────────────────────────────────────────
+// Every supported publication is a Beehiiv site described by a NewsletterSource.
+// The two built-in sources below can be extended or overridden by a JSON or
+// YAML config file (by extension: .yaml/.yml, else JSON) named in
+// NEWSLETTER_SOURCES_FILE:
+//
+//   { "sources": [{ "id": "tldr", "name": "TLDR AI", "baseUrl": "https://..." }] }
+//
+// Entries are validated with the same zod schema and merged by id.
+
+const DEFAULT_NOISE_SELECTORS = [
+  "script",
+  "style",
+  "noscript",
+  "nav",
+  "header",
+  "footer",
+  "form",
+  "button",
+  '[class*="subscribe"]',
+  '[class*="feedback"]',
+  ".advertisement",
+];
+
+const sourceSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_-]+$/, "Source id must be lowercase kebab/snake case"),
+  name: z.string().min(1),
+  baseUrl: z.string().url().transform((url) => url.replace(/\/+$/, "")),
+  defaultAuthor: z.string().default(""),
+  // Always use defaultAuthor, even when the post's JSON-LD names someone else
+  fixedAuthor: z.boolean().default(false),
+  archive: z
+    .object({
+      // "cards": each post is a card div two levels above the <a>, holding an
+      //          <h2> title and a <span> date (Superhuman homepage layout).
+      // "links": each post is a single <a> wrapping an <h3> title and a <p>.
+      layout: z.enum(["cards", "links"]).default("cards"),
+      // Path of the first listing page; later pages are /archive?page=N
+      firstPage: z.string().default("/"),
+      paginated: z.boolean().default(true),
+    })
+    .default({}),
+  // RSS/Atom feed: a path on baseUrl or an absolute URL; null to scrape the
+  // HTML archive only. Feed entries are listed first, the archive fills in.
+  feed: z.string().nullable().default("/feed"),
+  defaultCount: z.number().int().min(1).default(7),
+  maxCount: z.number().int().min(1).max(30).default(30),
+  // Hosts whose links are not reported as external links. The source's own
+  // host and Beehiiv are always excluded.
+  excludedDomains: z.array(z.string()).default([]),
+  noiseSelectors: z.array(z.string()).default(DEFAULT_NOISE_SELECTORS),
+  // Elements whose text is checked against the sponsor patterns and removed
+  sponsorSelector: z.string().default("h1,h2,h3,h4,h5,p"),
+});
+
+export type NewsletterSource = z.infer<typeof sourceSchema>;
+
+const configSchema = z.object({
+  sources: z.array(sourceSchema),
+});
+
+const BUILTIN_SOURCES: z.input<typeof sourceSchema>[] = [
+  {
+    id: "superhuman",
+    name: "Superhuman AI",
+    baseUrl: "https://www.superhuman.ai",
+    defaultAuthor: "Zain Kahn",
+    archive: { layout: "cards", firstPage: "/", paginated: true },
+    defaultCount: 7,
+    maxCount: 30,
+    noiseSelectors: [
+      ...DEFAULT_NOISE_SELECTORS,
+      '[class*="share"]',
+      '[class*="follow"]',
+      '[class*="poll"]',
+    ],
+    sponsorSelector: "h1,h2,h3,h4,p,div",
+  },
+  {
+    // Archive: https://codenewsletter.ai/archive (~9 posts via plain fetch);
+    // older posts come from the feed
+    id: "code",
+    name: "The Code",
+    baseUrl: "https://codenewsletter.ai",
+    defaultAuthor: "The Code team",
+    fixedAuthor: true,
+    archive: { layout: "links", firstPage: "/archive", paginated: false },
+    defaultCount: 5,
+    maxCount: 30,
+  },
+];
+
+// ─── Registry ────────────────────────────────────────────────────────────────
+
+let registry: Map<string, NewsletterSource> | undefined;
+
+function loadRegistry(): Map<string, NewsletterSource> {
+  const sources = new Map<string, NewsletterSource>();
+  for (const entry of BUILTIN_SOURCES) {
+    const source = sourceSchema.parse(entry);
+    sources.set(source.id, source);
+  }
+
+  const configPath = process.env.NEWSLETTER_SOURCES_FILE;
+  if (configPath) {
+    let raw: unknown;
+    try {
+      const text = readFileSync(configPath, "utf8");
+      raw = /\.ya?ml$/i.test(configPath) ? parseYaml(text) : JSON.parse(text);
+    } catch (err) {
+      throw new Error(
+        `Could not read sources config ${configPath}: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    }
+    const parsed = configSchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid sources config ${configPath}: ${parsed.error.issues
+          .map((i) => `${i.path.join(".")}: ${i.message}`)
+          .join("; ")}`
+      );
+    }
+    for (const source of parsed.data.sources) {
+      sources.set(source.id, source);
+    }
+  }
+
+  return sources;
+}
+
+export function listSources(): NewsletterSource[] {
+  registry ??= loadRegistry();
+  return [...registry.values()];
+}
+
+export function getSource(id: string): NewsletterSource {
+  registry ??= loadRegistry();
+  const source = registry.get(id);
+  if (!source) {
+    throw new Error(
+      `Unknown newsletter source "${id}". Available: ${[...registry.keys()].join(", ")}`
+    );
+  }
+  return source;
+}
+
+export function sourceHost(source: NewsletterSource): string {
+  return new URL(source.baseUrl).hostname.replace(/^www\./, "");
+}
+
+// Resolves a post URL such as https://www.superhuman.ai/p/{slug} to its source
+// (matched by host, ignoring "www.") and slug.
+export function resolvePostUrl(url: string): {
+  source: NewsletterSource;
+  slug: string;
+} {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid post URL "${url}"`);
+  }
+
+  const host = parsed.hostname.replace(/^www\./, "");
+  const source = listSources().find((s) => sourceHost(s) === host);
+  if (!source) {
+    throw new Error(
+      `No configured newsletter source for host "${parsed.hostname}". ` +
+        `Known hosts: ${listSources().map(sourceHost).join(", ")}`
+    );
+  }
+
+  const match = parsed.pathname.match(/^\/p\/([^/]+)\/?$/);
+  if (!match) {
+    throw new Error(`Not a post URL (expected ${source.baseUrl}/p/{slug}): ${url}`);
+  }
+  return { source, slug: decodeURIComponent(match[1]) };
+}
@@ -0,0 +1,557 @@
+import { readFileSync } from "fs";
+import { z } from "zod";
+import type { PostContent, PostSection, PostTags, TaggedEntity } from "./types.js";
+
+// ─── Topic and entity tagging ────────────────────────────────────────────────
+// Tags posts, sections and stories with the companies, products and models
+// they mention and the topics they cover, using a keyword and alias
+// dictionary. Tagging runs locally over content_markdown — no model or network
+// call — so the same text and dictionary always give the same tags.
+//
+// An entity is tagged when one of its aliases (or its name) appears as a whole
+// word, case-sensitively: "Apple" but not "apple". Names that are also
+// ordinary words or part numbers ("Meta", "Runway", "Opus", "R1") list context
+// terms, and are only tagged in text that also contains one of them. A topic is tagged when its
+// keywords, matched case-insensitively, occur at least minHits times (a hit in
+// a heading or title counts twice), or when an entity that implies the topic
+// is mentioned. A keyword ending in * matches any word ending. Link URLs and
+// images are ignored.
+//
+// The built-in dictionary below can be extended or overridden, merged by id,
+// with a JSON file named in NEWSLETTER_TAGS_FILE:
+//
+//   { "topics": [{ "id": "robotics", "name": "Robotics", "keywords": ["robot*", "humanoid*"] }],
+//     "entities": [{ "id": "figure", "name": "Figure AI", "type": "company", "aliases": ["Figure"],
+//                    "context": ["robot*", "humanoid*"] }] }
+
+const idSchema = z.string().regex(/^[a-z0-9_-]+$/, "Id must be lowercase kebab/snake case");
+
+const topicSchema = z.object({
+  id: idSchema,
+  name: z.string().min(1),
+  keywords: z.array(z.string().min(1)).min(1),
+  // Keyword hits needed to tag a story with the topic
+  minHits: z.number().int().min(1).default(2),
+});
+
+const entitySchema = z.object({
+  id: idSchema,
+  name: z.string().min(1),
+  type: z.enum(["company", "product", "model"]),
+  // Other spellings; the name itself always matches
+  aliases: z.array(z.string().min(1)).default([]),
+  // Topic ids tagged whenever the entity is mentioned
+  topics: z.array(idSchema).default([]),
+  // If set, one of these terms (case-insensitive, like topic keywords) must
+  // also appear in the text for the entity to be tagged
+  context: z.array(z.string().min(1)).default([]),
+});
+
+export type Topic = z.infer<typeof topicSchema>;
+export type Entity = z.infer<typeof entitySchema>;
+
+const configSchema = z.object({
+  topics: z.array(topicSchema).default([]),
+  entities: z.array(entitySchema).default([]),
+});
+
+const BUILTIN_TOPICS: z.input<typeof topicSchema>[] = [
+  {
+    id: "models",
+    name: "Models",
+    keywords: [
+      "model", "models", "LLM*", "language model*", "foundation model*", "frontier",
+      "reasoning", "multimodal", "benchmark*", "context window", "parameters", "weights",
+      "fine-tun*", "checkpoint*",
+    ],
+  },
+  {
+    id: "tooling",
+    name: "Tooling",
+    keywords: [
+      "tool", "tools", "SDK*", "API", "APIs", "CLI", "IDE", "IDEs", "plugin*", "extension*",
+      "framework*", "library", "libraries", "MCP", "coding assistant*", "coding agent*",
+      "workflow*", "automat*", "integration*", "developer*",
+    ],
+  },
+  {
+    id: "funding",
+    name: "Funding",
+    keywords: [
+      "raise", "raises", "raised", "raising", "funding", "round", "seed", "series A",
+      "series B", "series C", "series D", "series E", "valuation", "valued at", "investor*",
+      "led by", "venture", "acquir*", "acquisition*", "IPO", "unicorn*",
+    ],
+  },
+  {
+    id: "policy",
+    name: "Policy",
+    keywords: [
+      "regulat*", "policy", "policies", "law", "laws", "lawmaker*", "legislat*", "lawsuit*",
+      "sue", "sued", "suing", "court", "judge", "ban", "banned", "AI Act", "Congress",
+      "Senate", "White House", "government*", "executive order", "copyright*", "antitrust",
+      "privacy", "compliance", "FTC",
+    ],
+  },
+  {
+    id: "research",
+    name: "Research",
+    keywords: [
+      "research*", "paper", "papers", "study", "studies", "arXiv", "scientist*",
+      "breakthrough*", "dataset*", "experiment*", "peer-review*", "preprint*", "findings",
+    ],
+  },
+  {
+    id: "open-source",
+    name: "Open source",
+    keywords: [
+      "open-source", "open source", "open-sourced", "open-weight*", "open weight*",
+      "Apache 2.0", "MIT license", "permissive license",
+    ],
+    minHits: 1,
+  },
+];
+
+const BUILTIN_ENTITIES: z.input<typeof entitySchema>[] = [
+  // Companies
+  { id: "openai", name: "OpenAI", type: "company" },
+  { id: "anthropic", name: "Anthropic", type: "company" },
+  { id: "google", name: "Google", type: "company", aliases: ["Alphabet"] },
+  { id: "deepmind", name: "Google DeepMind", type: "company", aliases: ["DeepMind"] },
+  {
+    id: "meta",
+    name: "Meta",
+    type: "company",
+    context: [
+      "Meta AI", "Meta's", "Meta’s", "Zuckerberg", "Llama", "Facebook", "Instagram", "WhatsApp", "Ray-Ban*",
+    ],
+  },
+  { id: "microsoft", name: "Microsoft", type: "company" },
+  { id: "apple", name: "Apple", type: "company" },
+  { id: "amazon", name: "Amazon", type: "company", aliases: ["AWS"] },
+  { id: "nvidia", name: "Nvidia", type: "company", aliases: ["NVIDIA"] },
+  { id: "xai", name: "xAI", type: "company" },
+  { id: "mistral", name: "Mistral AI", type: "company", aliases: ["Mistral"] },
+  { id: "hugging-face", name: "Hugging Face", type: "company", aliases: ["HuggingFace"] },
+  { id: "perplexity", name: "Perplexity", type: "company" },
+  { id: "cohere", name: "Cohere", type: "company" },
+  { id: "deepseek", name: "DeepSeek", type: "company" },
+  { id: "alibaba", name: "Alibaba", type: "company" },
+  { id: "stability-ai", name: "Stability AI", type: "company" },
+  { id: "midjourney", name: "Midjourney", type: "company" },
+  { id: "runway", name: "Runway", type: "company", context: ["Gen-*", "video*", "RunwayML"] },
+  { id: "scale-ai", name: "Scale AI", type: "company" },
+  { id: "databricks", name: "Databricks", type: "company" },
+  { id: "salesforce", name: "Salesforce", type: "company" },
+  { id: "ibm", name: "IBM", type: "company" },
+  { id: "samsung", name: "Samsung", type: "company" },
+  { id: "github", name: "GitHub", type: "company" },
+  { id: "zapier", name: "Zapier", type: "company" },
+
+  // Products
+  { id: "chatgpt", name: "ChatGPT", type: "product" },
+  { id: "claude", name: "Claude", type: "product" },
+  { id: "claude-code", name: "Claude Code", type: "product", topics: ["tooling"] },
+  { id: "codex", name: "Codex", type: "product", topics: ["tooling"] },
+  { id: "copilot", name: "Copilot", type: "product", aliases: ["GitHub Copilot", "Microsoft Copilot"] },
+  {
+    id: "cursor",
+    name: "Cursor",
+    type: "product",
+    topics: ["tooling"],
+    context: ["Anysphere", "cod*", "editor*", "IDE", "developer*"],
+  },
+  { id: "windsurf", name: "Windsurf", type: "product", topics: ["tooling"] },
+  { id: "replit", name: "Replit", type: "product", topics: ["tooling"] },
+  { id: "lovable", name: "Lovable", type: "product", topics: ["tooling"] },
+  { id: "agent-builder", name: "Agent Builder", type: "product", topics: ["tooling"] },
+  { id: "notebooklm", name: "NotebookLM", type: "product" },
+  { id: "sora", name: "Sora", type: "product", context: ["OpenAI", "ChatGPT", "video*"] },
+
+  // Models
+  { id: "gpt-5", name: "GPT-5", type: "model", aliases: ["GPT5"], topics: ["models"] },
+  { id: "gpt-4o", name: "GPT-4o", type: "model", topics: ["models"] },
+  { id: "gpt-oss", name: "gpt-oss", type: "model", topics: ["models", "open-source"] },
+  { id: "o3", name: "o3", type: "model", topics: ["models"] },
+  { id: "o4-mini", name: "o4-mini", type: "model", topics: ["models"] },
+  {
+    id: "claude-opus",
+    name: "Claude Opus",
+    type: "model",
+    aliases: ["Opus"],
+    topics: ["models"],
+    context: ["Claude", "Anthropic"],
+  },
+  {
+    id: "claude-sonnet",
+    name: "Claude Sonnet",
+    type: "model",
+    aliases: ["Sonnet"],
+    topics: ["models"],
+    context: ["Claude", "Anthropic"],
+  },
+  { id: "claude-haiku", name: "Claude Haiku", type: "model", topics: ["models"] },
+  { id: "gemini", name: "Gemini", type: "model", topics: ["models"] },
+  { id: "gemma", name: "Gemma", type: "model", topics: ["models", "open-source"] },
+  { id: "llama", name: "Llama", type: "model", aliases: ["LLaMA"], topics: ["models", "open-source"] },
+  { id: "qwen", name: "Qwen", type: "model", topics: ["models", "open-source"] },
+  {
+    id: "deepseek-r1",
+    name: "DeepSeek-R1",
+    type: "model",
+    aliases: ["R1"],
+    topics: ["models", "open-source"],
+    context: ["DeepSeek"],
+  },
+  { id: "deepseek-v3", name: "DeepSeek-V3", type: "model", topics: ["models", "open-source"] },
+  { id: "grok", name: "Grok", type: "model", topics: ["models"] },
+  { id: "veo", name: "Veo", type: "model", topics: ["models"] },
+  { id: "imagen", name: "Imagen", type: "model", topics: ["models"] },
+  { id: "dall-e", name: "DALL-E", type: "model", aliases: ["DALL·E"], topics: ["models"] },
+  { id: "stable-diffusion", name: "Stable Diffusion", type: "model", topics: ["models", "open-source"] },
+];
+
+// A hit in a heading or post title counts this many times
+const HEADING_WEIGHT = 2;
+
+// ─── Dictionary ──────────────────────────────────────────────────────────────
+
+interface Dictionary {
+  topics: { topic: Topic; pattern: RegExp }[];
+  entities: { entity: Entity; pattern: RegExp; context?: RegExp }[];
+}
+
+let dictionary: Dictionary | undefined;
+
+// One regex matching any of the terms as whole words; a trailing * matches the
+// rest of the word and spaces match any whitespace
+function termPattern(terms: string[], flags: string): RegExp {
+  const alternatives = terms.map((term) =>
+    term
+      .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+      .replace(/\\\*$/, "[\\p{L}\\p{N}_-]*")
+      .replace(/\s+/g, "\\s+")
+  );
+  return new RegExp(`(?<![\\p{L}\\p{N}_])(?:${alternatives.join("|")})(?![\\p{L}\\p{N}_])`, flags);
+}
+
+function loadDictionary(): Dictionary {
+  const topics = new Map<string, Topic>();
+  const entities = new Map<string, Entity>();
+  for (const entry of BUILTIN_TOPICS) topics.set(entry.id, topicSchema.parse(entry));
+  for (const entry of BUILTIN_ENTITIES) entities.set(entry.id, entitySchema.parse(entry));
+
+  const configPath = process.env.NEWSLETTER_TAGS_FILE;
+  if (configPath) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(configPath, "utf8"));
+    } catch (err) {
+      throw new Error(
+        `Could not read tags config ${configPath}: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    }
+    const parsed = configSchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid tags config ${configPath}: ${parsed.error.issues
+          .map((i) => `${i.path.join(".")}: ${i.message}`)
+          .join("; ")}`
+      );
+    }
+    for (const topic of parsed.data.topics) topics.set(topic.id, topic);
+    for (const entity of parsed.data.entities) entities.set(entity.id, entity);
+  }
+
+  for (const entity of entities.values()) {
+    const unknown = entity.topics.find((id) => !topics.has(id));
+    if (unknown) throw new Error(`Entity "${entity.id}" implies unknown topic "${unknown}"`);
+  }
+
+  return {
+    topics: [...topics.values()].map((topic) => ({
+      topic,
+      pattern: termPattern(topic.keywords, "giu"),
+    })),
+    entities: [...entities.values()].map((entity) => ({
+      entity,
+      pattern: termPattern([entity.name, ...entity.aliases], "gu"),
+      context: entity.context.length > 0 ? termPattern(entity.context, "giu") : undefined,
+    })),
+  };
+}
+
+export function listTopics(): Topic[] {
+  dictionary ??= loadDictionary();
+  return dictionary.topics.map(({ topic }) => topic);
+}
+
+export function listEntities(): Entity[] {
+  dictionary ??= loadDictionary();
+  return dictionary.entities.map(({ entity }) => entity);
+}
+
+// ─── Tagging ─────────────────────────────────────────────────────────────────
+
+// Drops images and link targets, so URLs such as openai.com don't count
+function plainText(markdown: string): string {
+  return markdown
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/<https?:\/\/[^>]*>|https?:\/\/\S+/g, "")
+    .replace(/[*_`]+/g, "");
+}
+
+function countMatches(pattern: RegExp, text: string): number {
+  return text ? (text.match(pattern)?.length ?? 0) : 0;
+}
+
+function toEntity({ id, name, type }: Entity): TaggedEntity {
+  return { id, name, type };
+}
+
+// Tags one piece of text: a section, a story or a post. `heading` is the
+// section heading or post title, whose hits weigh more.
+export function tagText(body: string, heading = ""): PostTags {
+  dictionary ??= loadDictionary();
+  const text = plainText(body);
+  const title = plainText(heading);
+  const hits = (pattern: RegExp) =>
+    countMatches(pattern, title) * HEADING_WEIGHT + countMatches(pattern, text);
+
+  const mentioned: { entity: Entity; count: number }[] = [];
+  const implied = new Set<string>();
+  for (const { entity, pattern, context } of dictionary.entities) {
+    const count = hits(pattern);
+    if (count === 0 || (context && hits(context) === 0)) continue;
+    mentioned.push({ entity, count });
+    for (const id of entity.topics) implied.add(id);
+  }
+
+  return {
+    topics: dictionary.topics
+      .filter(({ topic, pattern }) => implied.has(topic.id) || hits(pattern) >= topic.minHits)
+      .map(({ topic }) => topic.id),
+    // Stable sort: equal counts keep dictionary order
+    entities: mentioned.sort((a, b) => b.count - a.count).map(({ entity }) => toEntity(entity)),
+  };
+}
+
+// Union of several tag sets: topics in dictionary order, entities in the
+// order they first appear
+export function mergeTags(tags: PostTags[]): PostTags {
+  const topics = new Set(tags.flatMap((t) => t.topics));
+  const entities = new Map<string, TaggedEntity>();
+  for (const entity of tags.flatMap((t) => t.entities)) {
+    if (!entities.has(entity.id)) entities.set(entity.id, entity);
+  }
+  return {
+    topics: listTopics()
+      .map((topic) => topic.id)
+      .filter((id) => topics.has(id)),
+    entities: [...entities.values()],
+  };
+}
+
+// Tags each section, and the post as a whole. A post covers every topic one
+// of its sections (or its title and subtitle) covers; its entities are
+// counted over the whole post.
+export function tagPost(post: PostContent): PostContent {
+  const headline = `${post.title}\n${post.subtitle}`;
+  const sections = post.sections.map((section) => ({
+    ...section,
+    tags: tagText(section.content_markdown, section.heading),
+  }));
+  const { topics } = mergeTags([tagText("", headline), ...sections.map((s) => s.tags)]);
+  const { entities } = tagText(post.content_markdown, headline);
+  return { ...post, sections, tags: { topics, entities } };
+}
+
+export function tagPosts(posts: PostContent[]): PostContent[] {
+  return posts.map(tagPost);
+}
+
+// ─── Filtering ───────────────────────────────────────────────────────────────
+
+export interface TagFilter {
+  topics?: string[];
+  entities?: string[];
+}
+
+// Whether a story matches the filter, given its text and heading
+export type TagMatcher = (body: string, heading?: string) => boolean;
+
+// Builds a matcher for a topics/entities filter, or undefined when the filter
+// is empty. A story matches when it has any of the topics and mentions any of
+// the entities (either list may be left out). Topics are ids or names and must
+// exist in the dictionary; entities are matched by id, name or alias, and an
+// entity the dictionary doesn't know is searched for as plain text.
+export function tagMatcher({ topics = [], entities = [] }: TagFilter): TagMatcher | undefined {
+  if (topics.length === 0 && entities.length === 0) return undefined;
+  const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+  const known = listTopics();
+  const topicIds = new Set(
+    topics.map((value) => {
+      const topic = known.find((t) => same(t.id, value) || same(t.name, value));
+      if (!topic) {
+        throw new Error(
+          `Unknown topic "${value}". Available: ${known.map((t) => t.id).join(", ")}`
+        );
+      }
+      return topic.id;
+    })
+  );
+
+  const entityIds = new Set<string>();
+  const freeText: string[] = [];
+  for (const value of entities) {
+    const entity = listEntities().find(
+      (e) => same(e.id, value) || same(e.name, value) || e.aliases.some((alias) => same(alias, value))
+    );
+    if (entity) entityIds.add(entity.id);
+    else freeText.push(value);
+  }
+  const freeTextPattern = freeText.length > 0 ? termPattern(freeText, "iu") : undefined;
+
+  return (body, heading = "") => {
+    const tags = tagText(body, heading);
+    const topicMatch = topicIds.size === 0 || tags.topics.some((id) => topicIds.has(id));
+    const entityMatch =
+      entities.length === 0 ||
+      tags.entities.some((entity) => entityIds.has(entity.id)) ||
+      (freeTextPattern?.test(plainText(`${heading}\n${body}`)) ?? false);
+    return topicMatch && entityMatch;
+  };
+}
+
+const BULLET = /^(?:[-*+]|\d+\.)\s+/;
+
+// Top-level list items of a roundup section, with their continuation lines
+function bulletItems(markdown: string): string[] {
+  const items: string[] = [];
+  for (const line of markdown.split("\n")) {
+    if (BULLET.test(line)) items.push(line);
+    else if (items.length > 0) items[items.length - 1] += "\n" + line;
+  }
+  return items.map((item) => item.trimEnd());
+}
+
+// The section narrowed to what matches: roundups keep only their matching
+// items, other sections are kept whole or dropped
+function narrowSection(section: PostSection, matches: TagMatcher): PostSection | undefined {
+  const items =
+    section.type === "tools" || section.type === "quick_hits"
+      ? bulletItems(section.content_markdown)
+      : [];
+  if (items.length === 0) {
+    return matches(section.content_markdown, section.heading) ? section : undefined;
+  }
+
+  const kept = items.filter((item) => matches(item));
+  if (kept.length === 0) return undefined;
+  const content = kept.join("\n");
+  return {
+    ...section,
+    content_markdown: content,
+    links: section.links.filter((link) => content.includes(`](${link.url}`)),
+  };
+}
+
+// Narrows each post to the sections and roundup items that match and tags the
+// result (without a matcher, only tags). Posts with nothing left are dropped;
+// placeholders for posts that couldn't be fetched are kept, so failures are
+// still reported.
+export function filterPosts(posts: PostContent[], matches: TagMatcher | undefined): PostContent[] {
+  if (!matches) return tagPosts(posts);
+
+  return posts.flatMap((post) => {
+    if (post.fetch_error) return [tagPost(post)];
+    const sections = post.sections.flatMap((section) => narrowSection(section, matches) ?? []);
+    if (sections.length === 0) return [];
+
+    const urls = new Set(sections.flatMap((section) => section.links.map((link) => link.url)));
+    return [
+      tagPost({
+        ...post,
+        content_markdown: sections
+          .map((section) =>
+            section.heading ? `## ${section.heading}\n\n${section.content_markdown}` : section.content_markdown
+          )
+          .join("\n\n"),
+        external_links: post.external_links.filter((link) => urls.has(link.url)),
+        sections,
+      }),
+    ];
+  });
+}
+
+// ─── Trends ──────────────────────────────────────────────────────────────────
+
+export type Trend = "new" | "rising" | "falling" | "steady";
+
+export interface TrendingTag {
+  id: string;
+  name: string;
+  // Stories tagged in each week, oldest first
+  counts: number[];
+  // Latest week minus the week before
+  change: number;
+  trend: Trend;
+}
+
+export interface TrendingEntity extends TrendingTag {
+  type: TaggedEntity["type"];
+}
+
+function trendOf(counts: number[]): Trend {
+  const latest = counts[counts.length - 1] ?? 0;
+  const previous = counts[counts.length - 2] ?? 0;
+  if (latest > 0 && counts.slice(0, -1).every((n) => n === 0)) return "new";
+  if (latest > previous) return "rising";
+  if (latest < previous) return "falling";
+  return "steady";
+}
+
+// Compares how many stories carried each tag week by week. `weeks` holds the
+// tags of every story, one array per week, oldest first. Every topic is
+// listed; entities are limited to the `entityLimit` most mentioned in the
+// latest week. Both are ordered by the latest week's count, then by change.
+export function trendingTags(
+  weeks: PostTags[][],
+  entityLimit: number
+): { topics: TrendingTag[]; entities: TrendingEntity[] } {
+  const topicCounts = new Map(listTopics().map((topic) => [topic.id, weeks.map(() => 0)]));
+  const entityCounts = new Map<string, { entity: TaggedEntity; counts: number[] }>();
+  weeks.forEach((stories, week) => {
+    for (const tags of stories) {
+      for (const id of tags.topics) topicCounts.get(id)![week]++;
+      for (const entity of tags.entities) {
+        const entry = entityCounts.get(entity.id) ?? { entity, counts: weeks.map(() => 0) };
+        entry.counts[week]++;
+        entityCounts.set(entity.id, entry);
+      }
+    }
+  });
+
+  const withTrend = (counts: number[]) => ({
+    counts,
+    change: (counts[counts.length - 1] ?? 0) - (counts[counts.length - 2] ?? 0),
+    trend: trendOf(counts),
+  });
+  const byLatest = (a: TrendingTag, b: TrendingTag) =>
+    (b.counts[b.counts.length - 1] ?? 0) - (a.counts[a.counts.length - 1] ?? 0) ||
+    b.change - a.change;
+
+  return {
+    topics: listTopics()
+      .map((topic) => ({ id: topic.id, name: topic.name, ...withTrend(topicCounts.get(topic.id)!) }))
+      .sort(byLatest),
+    entities: [...entityCounts.values()]
+      .map(({ entity, counts }) => ({ ...entity, ...withTrend(counts) }))
+      .sort(byLatest)
+      .slice(0, entityLimit),
+  };
+}
@@ -0,0 +1,63 @@
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface PostListing {
+  title: string;
+  date: string;
+  // ISO timestamp parsed from `date` (or the post's JSON-LD), when recognisable
+  published_at?: string;
+  url: string;
+  slug: string;
+  // Feed GUID, for posts listed from the RSS/Atom feed
+  guid?: string;
+}
+
+export interface PostLink {
+  text: string;
+  url: string;
+  // Set by link enrichment (see links.ts): `url` is then the destination with
+  // tracking parameters removed, and `original_url` the link as it appeared
+  original_url?: string;
+  domain?: string;
+  // The destination page's title and description, when metadata was fetched
+  title?: string;
+  description?: string;
+}
+
+// "intro" is the text before the first heading; "story" is the default for
+// any heading not recognised as a tool roundup, quick hits or prompt section.
+export type SectionType = "intro" | "story" | "tools" | "quick_hits" | "prompt";
+
+export type EntityType = "company" | "product" | "model";
+
+export interface TaggedEntity {
+  id: string;
+  name: string;
+  type: EntityType;
+}
+
+// Topics and entities found by tagging (see tags.ts); entities are ordered by
+// how often they are mentioned
+export interface PostTags {
+  topics: string[];
+  entities: TaggedEntity[];
+}
+
+export interface PostSection {
+  type: SectionType;
+  heading: string;
+  content_markdown: string;
+  links: PostLink[];
+  tags?: PostTags;
+}
+
+export interface PostContent extends PostListing {
+  author: string;
+  subtitle: string;
+  content_markdown: string;
+  external_links: PostLink[];
+  sections: PostSection[];
+  featured_image?: string;
+  tags?: PostTags;
+  // Set on placeholder posts whose page could not be fetched
+  fetch_error?: { message: string; attempts: number };
+}
@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { dirname, join } from "node:path";
+import { describe, it } from "node:test";
+import { fileURLToPath } from "node:url";
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), "..");
+
+// Runs the entry point as cron would, with the built-in sources only; none of
+// these commands touch the network
+function cli(...args: string[]) {
+  const { NEWSLETTER_SOURCES_FILE: _, ...env } = process.env;
+  const result = spawnSync(process.execPath, ["--import", "tsx", "src/index.ts", ...args], {
+    cwd: ROOT,
+    env,
+    encoding: "utf8",
+    timeout: 30_000,
+  });
+  return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+describe("command line", () => {
+  it("lists sources as JSON", () => {
+    const { status, stdout } = cli("list-sources", "--format", "json");
+    assert.equal(status, 0);
+    const { sources } = JSON.parse(stdout) as { sources: { id: string }[] };
+    assert.deepEqual(
+      sources.map((source) => source.id),
+      ["superhuman", "code"]
+    );
+  });
+
+  it("exits 2 with usage on bad arguments", () => {
+    for (const args of [
+      ["fetch"],
+      ["fetch", "--source", "superhuman", "--count", "seven"],
+      ["fetch", "--source", "superhuman", "--count", "31"],
+      ["fetch", "--source", "superhuman", "--max-tokens", "100"],
+      ["fetch", "--source", "superhuman", "--max-chars", "NaN"],
+      ["search", "agents", "--limit", "51"],
+      ["search", "agents", "--max-posts", "2.5"],
+      ["search"],
+      ["list-sources", "--format", "xml"],
+      ["get", "--bogus"],
+    ]) {
+      const { status, stderr } = cli(...args);
+      assert.equal(status, 2, args.join(" "));
+      assert.match(stderr, /Usage: superhuman-newsletter-mcp/);
+    }
+  });
+
+  it("exits 1 on an unknown source", () => {
+    const { status, stderr } = cli("fetch", "--source", "nope");
+    assert.equal(status, 1);
+    assert.match(stderr, /Unknown newsletter source "nope"/);
+  });
+});
@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { inflateRawSync } from "node:zlib";
+import { renderEpub, renderHtml, renderObsidianNotes, type ExportDigest } from "../src/export.js";
+import { markdownToHtml } from "../src/markdown.js";
+import { parseListings, parsePost } from "../src/scraper.js";
+import { assertGolden, loadFixture } from "./helpers.js";
+
+function fixtureDigest(digest?: string): ExportDigest {
+  const fixture = loadFixture("superhuman");
+  const { source } = fixture;
+  const listing = parseListings(source, fixture.read("listing-1.html"), fixture.fetchedAt).find(
+    (l) => l.slug === fixture.postSlug
+  )!;
+  return {
+    title: "Weekly AI Digest",
+    digest,
+    sources: [{ source, posts: [parsePost(source, listing, fixture.read("post.html"))] }],
+    compiledAt: fixture.fetchedAt,
+  };
+}
+
+// Entry names and contents of a ZIP archive, read from its local headers
+function unzip(archive: Buffer): { name: string; stored: boolean; data: Buffer }[] {
+  const entries = [];
+  let offset = 0;
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const method = archive.readUInt16LE(offset + 8);
+    const size = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const name = archive.subarray(offset + 30, offset + 30 + nameLength).toString("utf8");
+    const raw = archive.subarray(offset + 30 + nameLength, offset + 30 + nameLength + size);
+    entries.push({ name, stored: method === 0, data: method === 0 ? raw : inflateRawSync(raw) });
+    offset += 30 + nameLength + size;
+  }
+  return entries;
+}
+
+describe("markdown to HTML", () => {
+  it("renders turndown's lists, links and emphasis", () => {
+    assert.equal(
+      markdownToHtml("-   **One** [a_b](https://example.com/a_b_c?x=1&y=2)\n    -   nested\n-   two"),
+      '<ul><li><strong>One</strong> <a href="https://example.com/a_b_c?x=1&amp;y=2">a_b</a>' +
+        "<ul><li>nested</li></ul></li><li>two</li></ul>"
+    );
+    assert.equal(
+      markdownToHtml("## Title\n\n1\\. not a list", { headingOffset: 2, styles: { p: "margin:0" } }),
+      '<h4>Title</h4>\n<p style="margin:0">1. not a list</p>'
+    );
+    assert.equal(markdownToHtml("![chart](https://img.test/a.png)", { images: false }), "");
+  });
+
+  it("nests emphasis without crossing tags", () => {
+    assert.equal(
+      markdownToHtml("***both*** and *it **bold** it*"),
+      "<p><em><strong>both</strong></em> and <em>it <strong>bold</strong> it</em></p>"
+    );
+    assert.equal(markdownToHtml("**a *b** c*"), "<p><em><em>a <em>b</em></em> c</em></p>");
+    assert.equal(markdownToHtml("**open *x*"), "<p>**open <em>x</em></p>");
+    assert.equal(markdownToHtml("snake_case_name, 2 * 3 * 4"), "<p>snake_case_name, 2 * 3 * 4</p>");
+  });
+
+  it("drops link and image targets with unsafe schemes", () => {
+    assert.equal(
+      markdownToHtml("[click](javascript:alert(1)) [mail](mailto:a@b.test) [page](/p/x)"),
+      '<p>click <a href="mailto:a@b.test">mail</a> <a href="/p/x">page</a></p>'
+    );
+    assert.equal(markdownToHtml("![x](data:image/svg+xml;base64,AA) [y](VBScript:msgbox)"), "<p> y</p>");
+  });
+});
+
+describe("digest exports", () => {
+  it("renders an email-ready HTML page", () => {
+    assertGolden("export/digest.html", renderHtml(fixtureDigest("## Top stories\n\n- Agent Builder ships")));
+  });
+
+  it("writes an Obsidian note per post and an index note", () => {
+    const notes = renderObsidianNotes(fixtureDigest(), "weekly-ai-digest");
+    assert.deepEqual(
+      notes.map((note) => note.path),
+      ["Digests/weekly-ai-digest.md", "Superhuman AI/2026-02-21 OpenAI ships Agent Builder.md"]
+    );
+    assertGolden("export/index-note.md", notes[0].content);
+    assertGolden("export/post-note.md", notes[1].content);
+  });
+
+  it("packages an EPUB with the mimetype stored first", () => {
+    const entries = unzip(renderEpub(fixtureDigest("## Top stories")));
+    assert.deepEqual(
+      entries.map((entry) => entry.name),
+      [
+        "mimetype",
+        "META-INF/container.xml",
+        "OEBPS/content.opf",
+        "OEBPS/nav.xhtml",
+        "OEBPS/style.css",
+        "OEBPS/chapter-1.xhtml",
+        "OEBPS/chapter-2.xhtml",
+      ]
+    );
+    assert.ok(entries[0].stored);
+    assert.equal(entries[0].data.toString(), "application/epub+zip");
+    const chapter = entries[6].data.toString();
+    assert.match(chapter, /<h1>OpenAI ships Agent Builder<\/h1>/);
+    assert.doesNotMatch(chapter, /<img/);
+  });
+});
@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { FetchError } from "../src/fetcher.js";
+import { formatDigest } from "../src/format.js";
+import { parseListings, parsePost, placeholderPost } from "../src/scraper.js";
+import { digestResult } from "../src/server.js";
+import { assertGolden, FIXTURE_SOURCES, loadFixture } from "./helpers.js";
+
+describe("digest formatting", () => {
+  for (const sourceId of FIXTURE_SOURCES) {
+    it(`formats a ${sourceId} digest`, () => {
+      const fixture = loadFixture(sourceId);
+      const { source } = fixture;
+      const listings = parseListings(source, fixture.read(fixture.listingPages[0]), fixture.fetchedAt);
+      const posts = listings.slice(0, 2).map((listing) =>
+        listing.slug === fixture.postSlug
+          ? parsePost(source, listing, fixture.read("post.html"))
+          : placeholderPost(
+              source,
+              listing,
+              new FetchError(`HTTP 503 fetching ${listing.url}`, listing.url, 3, 503)
+            )
+      );
+      assertGolden(`${sourceId}/digest.md`, formatDigest(source, posts, { compiledAt: fixture.fetchedAt }));
+    });
+  }
+});
+
+describe("digest budget", () => {
+  it("keeps a full-detail JSON digest, sections included, within max_chars", () => {
+    const fixture = loadFixture("superhuman");
+    const { source } = fixture;
+    const listing = parseListings(source, fixture.read("listing-1.html"), fixture.fetchedAt).find(
+      (l) => l.slug === fixture.postSlug
+    )!;
+    const post = parsePost(source, listing, fixture.read("post.html"));
+    const posts = [1, 2, 3].map((n) => ({ ...post, slug: `${post.slug}-${n}` }));
+    const meta = { source: source.id, source_name: source.name, fetched_at: fixture.fetchedAt.toISOString() };
+    const unbounded = digestResult(source, posts, meta, {}, { output_format: "json" }, "");
+    const maxChars = 12_000;
+    assert.ok(String(unbounded.content[0].text).length > maxChars);
+
+    const result = digestResult(source, posts, meta, {}, { output_format: "json", max_chars: maxChars }, "");
+    const text = String(result.content[0].text);
+    assert.ok(text.length <= maxChars, `${text.length} > ${maxChars}`);
+    assert.equal(JSON.stringify(result.structuredContent, null, 2), text);
+    const { posts: shaped, output } = result.structuredContent as {
+      posts: typeof posts;
+      output: { trimmed_posts: number };
+    };
+    assert.equal(output.trimmed_posts, 3);
+    assert.ok(shaped.every((p) => p.sections.length === post.sections.length));
+  });
+});
@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { checkListings, checkPost } from "../src/health.js";
+import { parseListings } from "../src/scraper.js";
+import { FIXTURE_SOURCES, loadFixture } from "./helpers.js";
+
+describe("extraction checks", () => {
+  for (const sourceId of FIXTURE_SOURCES) {
+    it(`passes the ${sourceId} fixtures`, () => {
+      const fixture = loadFixture(sourceId);
+      const listings = parseListings(
+        fixture.source,
+        fixture.read("listing-1.html"),
+        fixture.fetchedAt
+      );
+      const listing = listings.find((l) => l.slug === fixture.postSlug)!;
+      // The code fixture's last card is deliberately missing its title and date
+      assert.ok(checkListings(listings).every((r) => r.status === "degraded"));
+      assert.deepEqual(checkPost(fixture.source, listing, fixture.read("post.html")).reasons, []);
+    });
+  }
+
+  it("fails a post page whose body can't be found", () => {
+    const { source } = loadFixture("superhuman");
+    const listing = {
+      title: "Some post",
+      date: "",
+      url: `${source.baseUrl}/p/some-post`,
+      slug: "some-post",
+    };
+    const html = '<html><body><div class="new-layout"></div></body></html>';
+    const { reasons } = checkPost(source, listing, html);
+    assert.deepEqual(
+      reasons.map((r) => [r.status, r.check]),
+      [
+        ["fail", "post_body"],
+        ["degraded", "post_date"],
+        ["degraded", "post_links"],
+        ["degraded", "json_ld"],
+      ]
+    );
+  });
+
+  it("flags listings with slug titles and no dates", () => {
+    const listings = [
+      { title: "first post", date: "", url: "https://example.com/p/first-post", slug: "first-post" },
+      { title: "Second", date: "", url: "https://example.com/p/second", slug: "second" },
+    ];
+    assert.deepEqual(
+      checkListings(listings).map((r) => [r.status, r.check]),
+      [
+        ["degraded", "listing_titles"],
+        ["degraded", "listing_dates"],
+      ]
+    );
+    assert.equal(checkListings([listings[0]])[0].status, "fail");
+    assert.equal(checkListings([])[0].status, "fail");
+  });
+});
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { getSource, type NewsletterSource } from "../src/sources.js";
+
+// ─── Fixtures and golden files ───────────────────────────────────────────────
+// test/fixtures/{source}/ holds pages saved by `npm run fixtures:refresh`:
+//
+//   listing-1.html, listing-2.html   listing pages (homepage / archive)
+//   post.html                        one post page
+//   feed.xml                         the RSS/Atom feed, if the source has one
+//   fixture.json                     { fetched_at, post_slug }
+//
+// test/golden/{source}/ holds the expected output for those pages. Run
+// `npm run test:update` to rewrite the golden files after a deliberate change
+// (or a fixture refresh) and review the diff.
+
+const TEST_DIR = dirname(fileURLToPath(import.meta.url));
+const FIXTURES_DIR = join(TEST_DIR, "fixtures");
+const GOLDEN_DIR = join(TEST_DIR, "golden");
+
+export const FIXTURE_SOURCES = ["superhuman", "code"];
+
+export interface Fixture {
+  source: NewsletterSource;
+  // When the pages were saved; resolves relative listing dates
+  fetchedAt: Date;
+  postSlug: string;
+  // Listing pages present for the source, in page order
+  listingPages: string[];
+  has(name: string): boolean;
+  read(name: string): string;
+}
+
+export function loadFixture(sourceId: string): Fixture {
+  const dir = join(FIXTURES_DIR, sourceId);
+  const meta = JSON.parse(readFileSync(join(dir, "fixture.json"), "utf8")) as {
+    fetched_at: string;
+    post_slug: string;
+  };
+  const listingPages: string[] = [];
+  for (let page = 1; existsSync(join(dir, `listing-${page}.html`)); page++) {
+    listingPages.push(`listing-${page}.html`);
+  }
+  return {
+    source: getSource(sourceId),
+    fetchedAt: new Date(meta.fetched_at),
+    postSlug: meta.post_slug,
+    listingPages,
+    has: (name) => existsSync(join(dir, name)),
+    read: (name) => readFileSync(join(dir, name), "utf8"),
+  };
+}
+
+// Compares `actual` (a string, or a value compared as pretty JSON) with the
+// golden file, or rewrites the file when UPDATE_GOLDEN is set
+export function assertGolden(name: string, actual: unknown): void {
+  const path = join(GOLDEN_DIR, name);
+  const text = typeof actual === "string" ? actual : JSON.stringify(actual, null, 2) + "\n";
+  if (process.env.UPDATE_GOLDEN) {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, text);
+    return;
+  }
+  if (!existsSync(path)) {
+    assert.fail(`Missing golden file test/golden/${name}; run npm run test:update`);
+  }
+  assert.equal(text, readFileSync(path, "utf8"), `Output differs from test/golden/${name}`);
+}
@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { isPrivateAddress, rankLinks, stripTracking } from "../src/links.js";
+import type { PostContent } from "../src/types.js";
+
+describe("stripTracking", () => {
+  it("removes tracking parameters and keeps the rest", () => {
+    assert.equal(
+      stripTracking("https://openai.com/index/agents/?utm_source=superhuman&utm_medium=email&_bhlid=a1"),
+      "https://openai.com/index/agents/"
+    );
+    assert.equal(
+      stripTracking("https://example.com/a?id=7&fbclid=xyz#section"),
+      "https://example.com/a?id=7#section"
+    );
+    assert.equal(stripTracking("not a url"), "not a url");
+  });
+});
+
+describe("isPrivateAddress", () => {
+  it("refuses loopback, private, link-local and mapped addresses", () => {
+    for (const address of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.20.0.1",
+      "192.168.1.1",
+      "169.254.169.254",
+      "100.64.1.1",
+      "::1",
+      "fd00::1",
+      "fe80::1",
+      "::ffff:127.0.0.1",
+      "::ffff:a9fe:a9fe",
+      "localhost",
+    ]) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+    for (const address of ["8.8.8.8", "172.32.0.1", "2606:4700::1111", "::ffff:8.8.8.8"]) {
+      assert.equal(isPrivateAddress(address), false, address);
+    }
+  });
+});
+
+describe("rankLinks", () => {
+  const post = (title: string, urls: [string, string][]): PostContent => ({
+    title,
+    date: "",
+    url: `https://www.superhuman.ai/p/${title}`,
+    slug: title,
+    author: "",
+    subtitle: "",
+    content_markdown: "",
+    external_links: urls.map(([text, url]) => ({ text, url })),
+    sections: [],
+  });
+
+  it("counts each destination once per post and drops single citations", () => {
+    const ranked = rankLinks([
+      post("one", [
+        ["here", "https://www.example.com/launch/"],
+        ["launch", "https://example.com/launch"],
+        ["tool", "https://tool.dev"],
+      ]),
+      post("two", [["this", "https://example.com/launch"]]),
+    ]);
+    assert.equal(ranked.length, 1);
+    assert.equal(ranked[0].citations, 2);
+    assert.equal(ranked[0].domain, "example.com");
+    assert.deepEqual(ranked[0].texts, ["here", "launch", "this"]);
+    assert.deepEqual(ranked[0].posts.map((p) => p.title), ["one", "two"]);
+  });
+});
@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { nextUnread, unreadListings, type ReadMark } from "../src/readstate.js";
+import type { PostListing } from "../src/types.js";
+
+// Daily posts, newest first: day-9 … day-1
+const listings: PostListing[] = Array.from({ length: 9 }, (_, i) => {
+  const day = 9 - i;
+  return {
+    title: `Day ${day}`,
+    date: "",
+    published_at: `2026-02-${String(day).padStart(2, "0")}T12:00:00.000Z`,
+    url: `https://www.superhuman.ai/p/day-${day}`,
+    slug: `day-${day}`,
+  };
+});
+const mark: ReadMark = {
+  slug: "day-2",
+  published_at: "2026-02-02T12:00:00.000Z",
+  marked_at: "2026-02-02T13:00:00.000Z",
+};
+
+describe("read state", () => {
+  it("lists what comes after the mark", () => {
+    assert.deepEqual(
+      unreadListings(listings, mark).map((l) => l.slug),
+      ["day-9", "day-8", "day-7", "day-6", "day-5", "day-4", "day-3"]
+    );
+  });
+
+  it("returns the oldest unread posts first when max_posts is smaller", () => {
+    const first = nextUnread(listings, mark, 3);
+    assert.deepEqual(
+      first.listings.map((l) => l.slug),
+      ["day-5", "day-4", "day-3"]
+    );
+    assert.equal(first.remaining, 4);
+
+    // Acknowledging the newest returned post leaves the rest unread
+    const acknowledged = first.listings[0];
+    const next = nextUnread(
+      listings,
+      { slug: acknowledged.slug, published_at: acknowledged.published_at, marked_at: "" },
+      3
+    );
+    assert.deepEqual(
+      next.listings.map((l) => l.slug),
+      ["day-8", "day-7", "day-6"]
+    );
+    assert.equal(next.remaining, 1);
+  });
+});
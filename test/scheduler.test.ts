@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { signPayload, unseenListings, webhookPayload } from "../src/scheduler.js";
+import { parseListings, parsePost } from "../src/scraper.js";
+import { loadFixture } from "./helpers.js";
+
+describe("new post push", () => {
+  const fixture = loadFixture("superhuman");
+  const listings = parseListings(fixture.source, fixture.read("listing-1.html"), fixture.fetchedAt);
+
+  it("finds listings whose slug hasn't been seen", () => {
+    const seen = listings.slice(1).map((listing) => listing.slug);
+    assert.deepEqual(
+      unseenListings(listings, seen).map((listing) => listing.slug),
+      [listings[0].slug]
+    );
+    assert.deepEqual(unseenListings(listings, listings.map((l) => l.slug)), []);
+  });
+
+  it("builds a Slack-compatible payload with the post", () => {
+    const listing = listings.find((l) => l.slug === fixture.postSlug)!;
+    const post = parsePost(fixture.source, listing, fixture.read("post.html"));
+    const payload = webhookPayload(fixture.source, post);
+    assert.equal(payload.event, "post.published");
+    assert.equal(payload.source, "superhuman");
+    assert.equal(
+      payload.text,
+      "New Superhuman AI issue: <https://www.superhuman.ai/p/openai-ships-agent-builder|OpenAI ships Agent Builder>" +
+        " — PLUS: How to automate your inbox triage in 10 minutes"
+    );
+    assert.equal(payload.post, post);
+  });
+
+  it("escapes Slack control characters in the text", () => {
+    const listing = listings.find((l) => l.slug === fixture.postSlug)!;
+    const post = parsePost(fixture.source, listing, fixture.read("post.html"));
+    const payload = webhookPayload(fixture.source, {
+      ...post,
+      url: "https://www.superhuman.ai/p/a|b",
+      title: "Q&A: <GPT-5> | Claude",
+      subtitle: "R&D > hype",
+    });
+    assert.equal(
+      payload.text,
+      "New Superhuman AI issue: <https://www.superhuman.ai/p/a%7Cb|Q&amp;A: &lt;GPT-5&gt; \u2223 Claude>" +
+        " — R&amp;D &gt; hype"
+    );
+  });
+
+  it("signs the timestamp and body", () => {
+    const body = '{"event":"post.published"}';
+    assert.equal(
+      signPayload("s3cret", "1760000000", body),
+      "026eeffee86483569466893949ba07b9db210dfa96165606ce058edd87b1e47c"
+    );
+    assert.notEqual(signPayload("s3cret", "1760000001", body), signPayload("s3cret", "1760000000", body));
+  });
+});
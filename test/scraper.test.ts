@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseFeed } from "../src/feed.js";
+import { parseListings, parsePost, postFromFeed } from "../src/scraper.js";
+import { sourceHost } from "../src/sources.js";
+import { assertGolden, FIXTURE_SOURCES, loadFixture } from "./helpers.js";
+
+for (const sourceId of FIXTURE_SOURCES) {
+  const fixture = loadFixture(sourceId);
+  const { source } = fixture;
+
+  describe(`${sourceId} scraper`, () => {
+    for (const page of fixture.listingPages) {
+      it(`extracts listings from ${page}`, () => {
+        const listings = parseListings(source, fixture.read(page), fixture.fetchedAt);
+        assert.ok(listings.length > 0, "no listings found");
+        assert.equal(new Set(listings.map((l) => l.slug)).size, listings.length, "duplicate slugs");
+        assertGolden(`${sourceId}/${page.replace(/\.html$/, ".json")}`, listings);
+      });
+    }
+
+    it("extracts the post page", () => {
+      const listing = parseListings(
+        source,
+        fixture.read(fixture.listingPages[0]),
+        fixture.fetchedAt
+      ).find((l) => l.slug === fixture.postSlug);
+      assert.ok(listing, `${fixture.postSlug} is not on the first listing page`);
+
+      const post = parsePost(source, listing, fixture.read("post.html"));
+      assert.ok(post.content_markdown.length > 0, "empty post body");
+      assert.ok(post.sections.length > 1, "post was not split into sections");
+      assert.ok(post.published_at, "no publication date");
+      for (const link of post.external_links) {
+        assert.ok(!link.url.includes(sourceHost(source)), `own link ${link.url}`);
+      }
+      assertGolden(`${sourceId}/post.json`, post);
+    });
+
+    it("parses the feed", { skip: !fixture.has("feed.xml") && "no feed" }, () => {
+      const entries = parseFeed(source, fixture.read("feed.xml"));
+      assert.ok(entries.length > 0, "no feed entries");
+      assertGolden(`${sourceId}/feed.json`, entries);
+
+      const posts = entries
+        .filter((entry) => entry.content_html)
+        .map((entry) => {
+          const { title, date, published_at, url, slug, guid } = entry;
+          return postFromFeed(source, { title, date, published_at, url, slug, guid }, entry);
+        });
+      assertGolden(`${sourceId}/feed-posts.json`, posts);
+    });
+  });
+}
@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseListings, parsePost } from "../src/scraper.js";
+import { filterPosts, tagMatcher, tagPost, tagText, trendingTags } from "../src/tags.js";
+import type { PostTags } from "../src/types.js";
+import { loadFixture } from "./helpers.js";
+
+function fixturePost() {
+  const fixture = loadFixture("superhuman");
+  const { source } = fixture;
+  const listing = parseListings(source, fixture.read("listing-1.html"), fixture.fetchedAt).find(
+    (l) => l.slug === fixture.postSlug
+  )!;
+  return parsePost(source, listing, fixture.read("post.html"));
+}
+
+describe("tagText", () => {
+  it("finds entities by alias and topics by keyword hits", () => {
+    const tags = tagText(
+      "The French lab raised $2B in a Series C led by ASML, at a $14B valuation. See [openai.com](https://openai.com).",
+      "Mistral raises again"
+    );
+    assert.deepEqual(tags.topics, ["funding"]);
+    assert.deepEqual(tags.entities, [{ id: "mistral", name: "Mistral AI", type: "company" }]);
+  });
+
+  it("needs enough keyword hits unless an entity implies the topic", () => {
+    assert.deepEqual(tagText("A new model is out.").topics, []);
+    assert.deepEqual(tagText("Meta released Llama under a new license.").topics, ["models", "open-source"]);
+    assert.deepEqual(tagText("an apple a day").entities, []);
+  });
+
+  it("needs context to tag names that are also ordinary words", () => {
+    for (const text of [
+      "Meta-analysis of 40 studies finds AI tutors help.",
+      "Runway: the startup has 18 months of cash.",
+      "Swap the R1 resistor before flashing the board.",
+      "Beethoven's Opus 131 was his favorite.",
+      "Cursor keys move the selection.",
+    ]) {
+      assert.deepEqual(tagText(text).entities, [], text);
+    }
+    const ids = (text: string) => tagText(text).entities.map((entity) => entity.id);
+    assert.deepEqual(ids("Zuckerberg says Meta will spend more."), ["meta"]);
+    assert.deepEqual(ids("DeepSeek says R1 now runs on phones."), ["deepseek", "deepseek-r1"]);
+    assert.deepEqual(ids("Anthropic shipped Opus 4.1."), ["anthropic", "claude-opus"]);
+    assert.deepEqual(ids("Runway launched Gen-4 for video."), ["runway"]);
+  });
+});
+
+describe("post tagging and filters", () => {
+  it("tags the post and each section", () => {
+    const post = tagPost(fixturePost());
+    assert.deepEqual(post.tags?.topics, ["tooling"]);
+    assert.deepEqual(
+      post.tags?.entities.map((entity) => entity.id),
+      ["openai", "agent-builder", "anthropic", "zapier", "lovable"]
+    );
+    assert.deepEqual(
+      post.sections.map((section) => section.tags?.entities.map((entity) => entity.id)),
+      [["openai", "agent-builder"], ["openai", "agent-builder"], ["zapier"], ["lovable"], ["anthropic"]]
+    );
+  });
+
+  it("narrows posts to matching sections and roundup items", () => {
+    const [post] = filterPosts([fixturePost()], tagMatcher({ entities: ["anthropic"] }));
+    assert.equal(
+      post.content_markdown,
+      "## ⚡️ Quick hits\n\n-   Anthropic [published](https://www.anthropic.com/news) a new model card."
+    );
+    assert.deepEqual(post.external_links, [{ text: "published", url: "https://www.anthropic.com/news" }]);
+    assert.deepEqual(filterPosts([fixturePost()], tagMatcher({ topics: ["policy"] })), []);
+  });
+
+  it("matches unknown entities as text and rejects unknown topics", () => {
+    const [post] = filterPosts([fixturePost()], tagMatcher({ entities: ["Granola"] }));
+    assert.deepEqual(
+      post.sections.map((section) => section.heading),
+      ["🧰 Today's AI tools"]
+    );
+    assert.throws(() => tagMatcher({ topics: ["gossip"] }), /Unknown topic "gossip"/);
+    assert.equal(tagMatcher({}), undefined);
+  });
+});
+
+describe("trendingTags", () => {
+  it("counts tagged stories per week and compares the last two", () => {
+    const funding: PostTags = { topics: ["funding"], entities: [] };
+    const openai: PostTags = {
+      topics: ["models"],
+      entities: [{ id: "openai", name: "OpenAI", type: "company" }],
+    };
+    const { topics, entities } = trendingTags([[funding, funding], [funding], [openai, openai, funding]], 5);
+
+    assert.deepEqual(
+      topics.slice(0, 2).map(({ id, counts, change, trend }) => ({ id, counts, change, trend })),
+      [
+        { id: "models", counts: [0, 0, 2], change: 2, trend: "new" },
+        { id: "funding", counts: [2, 1, 1], change: 0, trend: "steady" },
+      ]
+    );
+    assert.deepEqual(entities, [
+      { id: "openai", name: "OpenAI", type: "company", counts: [0, 0, 2], change: 2, trend: "new" },
+    ]);
+  });
+});